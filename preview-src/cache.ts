@@ -28,12 +28,16 @@ export interface PullRequest {
 	pendingCommentText?: string;
 	pendingCommentDrafts?: { [key: string]: string; };
 	status: ReposGetCombinedStatusForRefResponse;
-	mergeable: boolean;
+	mergeable?: boolean;
 	defaultMergeMethod: MergeMethod;
 	mergeMethodsAvailability: MergeMethodsAvailability;
 	supportsGraphQl: boolean;
 	reviewers: ReviewState[];
 	isDraft: boolean;
+	/**
+	 * Set when GitHub couldn't be reached and a copy of the pull request cached at that time is shown.
+	 */
+	cachedAt?: string;
 }
 
 export function getState(): PullRequest {
@@ -20,7 +20,7 @@ export type Props = Partial<Comment & PullRequest> & {
 export function CommentView(comment: Props) {
 	const { id, pullRequestReviewId, canEdit, canDelete, bodyHTML, body, isPRDescription } = comment;
 	const [ bodyMd, setBodyMd ] = useStateProp(body);
-	const { deleteComment, editComment, setDescription, pr } = useContext(PullRequestContext);
+	const { deleteComment, editComment, setDescription, deleteDraft, pr } = useContext(PullRequestContext);
 	const currentDraft = pr.pendingCommentDrafts && pr.pendingCommentDrafts[id];
 	const [inEditMode, setEditMode] = useState(!!currentDraft);
 	const [showActionBar, setShowActionBar] = useState(false);
@@ -33,9 +33,7 @@ export function CommentView(comment: Props) {
 				body={currentDraft || body}
 				onCancel={
 					() => {
-						if (pr.pendingCommentDrafts) {
-							delete pr.pendingCommentDrafts[id];
-						}
+						deleteDraft(id);
 						setEditMode(false);
 					}
 				}
@@ -48,6 +46,7 @@ export function CommentView(comment: Props) {
 								await editComment({ comment: comment as Comment, text });
 							}
 							setBodyMd(text);
+							deleteDraft(id);
 						} finally {
 							setEditMode(false);
 						}
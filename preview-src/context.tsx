@@ -93,6 +93,16 @@ export class PRContext {
 		if (body === pendingCommentDrafts[id]) { return; }
 		pendingCommentDrafts[id] = body;
 		this.updatePR({ pendingCommentDrafts: pendingCommentDrafts });
+		return this.postMessage({ command: 'pr.update-drafts', args: pendingCommentDrafts });
+	}
+
+	public deleteDraft = (id: number) => {
+		let pullRequest = getState();
+		const pendingCommentDrafts = { ...pullRequest.pendingCommentDrafts };
+		if (!(id in pendingCommentDrafts)) { return; }
+		delete pendingCommentDrafts[id];
+		this.updatePR({ pendingCommentDrafts: pendingCommentDrafts });
+		return this.postMessage({ command: 'pr.update-drafts', args: pendingCommentDrafts });
 	}
 
 	public requestChanges = async (body: string) =>
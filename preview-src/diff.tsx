@@ -5,11 +5,12 @@ import { Comment } from '../src/common/comment';
 import { DiffHunk, DiffLine } from '../src/common/diffHunk';
 import PullRequestContext from './context';
 
-function Diff({ comment, hunks, path, outdated=false }: { comment: Comment, hunks: DiffHunk[], outdated: boolean, path: string }) {
+function Diff({ comment, hunks, path, outdated=false, resolved=false }: { comment: Comment, hunks: DiffHunk[], outdated: boolean, resolved?: boolean, path: string }) {
 	const { openDiff } = useContext(PullRequestContext);
 	return <div className='diff'>
 		<div className='diffHeader'>
 			<a className={`diffPath ${outdated ? 'outdated' : ''}`} onClick={() => openDiff(comment)}>{path}</a>
+			{resolved ? <span className='resolvedLabel'>Resolved</span> : null}
 		</div>
 		{hunks.map(hunk => <Hunk hunk={hunk} />)}
 	</div>;
@@ -62,11 +62,13 @@ export default StatusChecks;
 
 export const MergeStatus = ({ mergeable }: Pick<PullRequest, 'mergeable'>) =>
 	<div className='status-item status-section'>
-		{mergeable ? checkIcon : deleteIcon}
+		{mergeable === undefined ? pendingIcon : mergeable ? checkIcon : deleteIcon}
 		<div>{
-			mergeable
-				? 'This branch has no conflicts with the base branch'
-				: 'This branch has conflicts that must be resolved'
+			mergeable === undefined
+				? 'Checking for conflicts with the base branch'
+				: mergeable
+					? 'This branch has no conflicts with the base branch'
+					: 'This branch has conflicts that must be resolved'
 		}</div>
 	</div>;
 
@@ -6,6 +6,7 @@ import { AddComment, CommentView } from './comment';
 import Timeline from './timeline';
 import StatusChecks from './merge';
 import Sidebar from './sidebar';
+import { dateFromNow } from '../src/common/utils';
 
 export const Overview = (pr: PullRequest) =>
 	<>
@@ -16,11 +17,16 @@ export const Overview = (pr: PullRequest) =>
 		</div>
 		<Sidebar {...pr} />
 		<div id='main'>
+			{pr.cachedAt
+				? <div className='offline-notice'>
+					GitHub can't be reached. Showing a read-only copy of this pull request cached {dateFromNow(pr.cachedAt)}.
+				</div>
+				: null}
 			<div id='description'>
 				<CommentView isPRDescription {...pr} />
 			</div>
 			<Timeline events={pr.events} />
-			<StatusChecks {...pr} />
-			<AddComment {...pr} />
+			{pr.cachedAt ? null : <StatusChecks {...pr} />}
+			{pr.cachedAt ? null : <AddComment {...pr} />}
 		</div>
 	</>;
@@ -108,6 +108,7 @@ const ReviewEventView = (event: ReviewEvent) => {
 									comment={thread[0]}
 									hunks={thread[0].diffHunks}
 									outdated={thread[0].position === null}
+									resolved={thread[0].isResolved}
 									path={thread[0].path} />
 								{thread.map(c => <CommentView {...c} pullRequestReviewId={event.id} />)}
 							</div>
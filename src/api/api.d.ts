@@ -97,6 +97,10 @@ export interface RepositoryState {
 	readonly onDidChange: Event<void>;
 }
 
+export interface CommitOptions {
+	all?: boolean | 'tracked';
+}
+
 export interface RepositoryUIState {
 	readonly selected: boolean;
 	readonly onDidChange: Event<void>;
@@ -148,6 +152,8 @@ export interface Repository {
 	show(ref: string, path: string): Promise<string>;
 	getCommit(ref: string): Promise<Commit>;
 	apply(patch: string, reverse?: boolean): Promise<void>;
+	add(paths: string[]): Promise<void>;
+	commit(message: string, opts?: CommitOptions): Promise<void>;
 	diff(cached?: boolean): Promise<string>;
 	diffWith(ref: string, path: string): Promise<string>;
 	diffBlobs(object1: string, object2: string): Promise<string>;
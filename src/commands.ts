@@ -23,13 +23,57 @@ import { writeFile, unlink } from 'fs';
 import Logger from './common/logger';
 import { GitErrorCodes } from './api/api';
 import { Comment } from './common/comment';
-import { PullRequestManager } from './github/pullRequestManager';
+import { PullRequestManager, SETTINGS_NAMESPACE, OPEN_WORKTREE_IN_SETTING } from './github/pullRequestManager';
 import { PullRequestModel } from './github/pullRequestModel';
-import { CommentHandler } from './github/utils';
+import { CommentHandler, updateCommentThreadLabel } from './github/utils';
+import { getAcceptInputCommands } from './github/commands';
+import { getSuggestedLines } from './common/suggestion';
+import * as CommentDrafts from './github/commentDrafts';
 
 const _onDidUpdatePR = new vscode.EventEmitter<PullRequest | undefined>();
 export const onDidUpdatePR: vscode.Event<PullRequest | undefined> = _onDidUpdatePR.event;
 
+function getRawComments(thread: vscode.CommentThread): Comment[] {
+	return thread.comments.map(c => (c as vscode.Comment & { _rawComment: Comment })._rawComment);
+}
+
+async function applySuggestion(prManager: PullRequestManager, handler: CommentHandler, thread: vscode.CommentThread, commit: boolean): Promise<void> {
+	const comment = getRawComments(thread).reverse().find(c => !!getSuggestedLines(c.body));
+	const pullRequest = handler instanceof PRNode ? handler.pullRequestModel : prManager.activePullRequest;
+	if (!comment || !pullRequest) {
+		return;
+	}
+
+	try {
+		await prManager.applySuggestion(pullRequest, comment, commit);
+	} catch (e) {
+		Logger.appendLine(`Applying suggestion failed: ${e}`);
+		vscode.window.showErrorMessage(`Applying suggestion failed: ${formatError(e)}`);
+	}
+}
+
+async function setReviewThreadResolved(prManager: PullRequestManager, handler: CommentHandler, thread: vscode.CommentThread, resolved: boolean): Promise<void> {
+	const comments = getRawComments(thread);
+	const pullRequest = handler instanceof PRNode ? handler.pullRequestModel : prManager.activePullRequest;
+	if (!comments.length || !comments[0].reviewThreadId || !pullRequest) {
+		return;
+	}
+
+	try {
+		await prManager.setReviewThreadResolved(pullRequest, comments[0].reviewThreadId!, resolved);
+	} catch (e) {
+		vscode.window.showErrorMessage(`${resolved ? 'Resolving' : 'Unresolving'} the conversation failed: ${formatError(e)}`);
+		return;
+	}
+
+	comments.forEach(comment => comment.isResolved = resolved);
+	thread.collapsibleState = resolved ? vscode.CommentThreadCollapsibleState.Collapsed : vscode.CommentThreadCollapsibleState.Expanded;
+	updateCommentThreadLabel(thread);
+
+	const inDraftMode = await prManager.inDraftMode(pullRequest);
+	thread.additionalCommands = getAcceptInputCommands(thread, inDraftMode, handler, pullRequest.githubRepository.supportsGraphQl).additionalCommands;
+}
+
 function ensurePR(prManager: PullRequestManager, pr?: PRNode | PullRequestModel): PullRequestModel {
 	// If the command is called from the command palette, no arguments are passed.
 	if (!pr) {
@@ -196,6 +240,83 @@ export function registerCommands(context: vscode.ExtensionContext, prManager: Pu
 		}
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('pr.cleanUpBranches', async () => {
+		const branches = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Checking the state of pull request branches'
+		}, () => prManager.getPullRequestBranches());
+
+		// The current branch can't be deleted
+		const head = prManager.repository.state.HEAD;
+		const picks = branches
+			.filter(({ branchName }) => !head || head.name !== branchName)
+			.map(({ branchName, pullRequest }) => ({
+				label: branchName,
+				description: pullRequest ? `#${pullRequest.prNumber}: ${pullRequest.title}` : undefined,
+				detail: pullRequest ? (pullRequest.isOpen ? 'Open' : pullRequest.isMerged ? 'Merged' : 'Closed') : 'Pull request not found',
+				picked: !!pullRequest && !pullRequest.isOpen
+			}));
+
+		if (!picks.length) {
+			vscode.window.showInformationMessage('There are no pull request branches to clean up.');
+			return;
+		}
+
+		const selected = await vscode.window.showQuickPick(picks, {
+			canPickMany: true,
+			placeHolder: 'Select the pull request branches to delete'
+		});
+
+		if (!selected || !selected.length) {
+			return;
+		}
+
+		const notFullyMerged: string[] = [];
+		const errors: string[] = [];
+		for (const { label } of selected) {
+			try {
+				await prManager.deleteLocalBranch(label);
+			} catch (e) {
+				if (e.gitErrorCode === GitErrorCodes.BranchNotFullyMerged) {
+					notFullyMerged.push(label);
+				} else {
+					errors.push(`${label}: ${formatError(e)}`);
+				}
+			}
+		}
+
+		if (notFullyMerged.length) {
+			// Pull requests that were squashed or rebased when merging leave branches that git doesn't consider merged
+			const DELETE_BRANCHES_FORCE = 'Delete branches';
+			const action = await vscode.window.showWarningMessage(`The branches ${notFullyMerged.join(', ')} are not fully merged, are you sure you want to delete them?`, { modal: true }, DELETE_BRANCHES_FORCE);
+			if (action === DELETE_BRANCHES_FORCE) {
+				for (const branchName of notFullyMerged) {
+					try {
+						await prManager.deleteLocalBranch(branchName, true);
+					} catch (e) {
+						errors.push(`${branchName}: ${formatError(e)}`);
+					}
+				}
+			}
+		}
+
+		try {
+			await prManager.removeUnusedPullRequestRemotes();
+		} catch (e) {
+			errors.push(`Removing unused remotes failed: ${formatError(e)}`);
+		}
+
+		if (errors.length) {
+			telemetry.on('pr.cleanUpBranches.failure');
+			vscode.window.showErrorMessage(`Deleting pull request branches failed. ${errors.join(' ')}`);
+		} else {
+			telemetry.on('pr.cleanUpBranches.success');
+		}
+
+		// fire and forget
+		vscode.commands.executeCommand('pr.refreshList');
+	}));
+
 	context.subscriptions.push(vscode.commands.registerCommand('pr.create', async () => {
 		reviewManager.createPullRequest();
 	}));
@@ -223,6 +344,49 @@ export function registerCommands(context: vscode.ExtensionContext, prManager: Pu
 		});
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('pr.checkoutInWorktree', async (pr: PRNode | DescriptionNode | PullRequestModel) => {
+		const pullRequestModel = pr instanceof PRNode || pr instanceof DescriptionNode ? pr.pullRequestModel : pr;
+		telemetry.on('pr.checkout.worktree');
+
+		let worktreeUri: vscode.Uri;
+		try {
+			worktreeUri = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.SourceControl,
+				title: `Checking out Pull Request #${pullRequestModel.prNumber} in a worktree`,
+			}, () => prManager.checkoutInWorktree(pullRequestModel));
+		} catch (e) {
+			vscode.window.showErrorMessage(`Unable to check out pull request #${pullRequestModel.prNumber} in a worktree. ${formatError(e)}`);
+			return;
+		}
+
+		const openIn = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE).get<'newWindow' | 'workspaceFolder'>(OPEN_WORKTREE_IN_SETTING);
+		if (openIn === 'workspaceFolder') {
+			const folders = vscode.workspace.workspaceFolders || [];
+			if (!folders.some(folder => folder.uri.fsPath === worktreeUri.fsPath)) {
+				vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri: worktreeUri, name: `#${pullRequestModel.prNumber}: ${pullRequestModel.title}` });
+			}
+		} else {
+			await vscode.commands.executeCommand('vscode.openFolder', worktreeUri, true);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('pr.pushToPullRequest', async () => {
+		const pullRequest = ensurePR(prManager);
+		if (!prManager.canPushToPullRequest(pullRequest)) {
+			vscode.window.showErrorMessage(`Unable to push to pull request #${pullRequest.prNumber}. Its author does not allow maintainers to edit ${pullRequest.head.label}.`);
+			return;
+		}
+
+		try {
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.SourceControl,
+				title: `Pushing to ${pullRequest.head.label}`,
+			}, () => prManager.pushToPullRequest(pullRequest));
+		} catch (e) {
+			vscode.window.showErrorMessage(`Unable to push to pull request #${pullRequest.prNumber}. ${formatError(e)}`);
+		}
+	}));
+
 	context.subscriptions.push(vscode.commands.registerCommand('pr.merge', async (pr?: PRNode) => {
 		const pullRequest = ensurePR(prManager, pr);
 		return vscode.window.showWarningMessage(`Are you sure you want to merge this pull request on GitHub?`, { modal: true }, 'Yes').then(async value => {
@@ -383,16 +547,19 @@ export function registerCommands(context: vscode.ExtensionContext, prManager: Pu
 
 	context.subscriptions.push(vscode.commands.registerCommand('pr.replyComment', async (handler: CommentHandler, thread: vscode.CommentThread) => {
 		telemetry.on('pr.replyComment');
+		CommentDrafts.useDraftAsInput(thread);
 		handler.createOrReplyComment(thread);
 	}));
 
 	context.subscriptions.push(vscode.commands.registerCommand('pr.startReview', async (handler: CommentHandler, thread: vscode.CommentThread) => {
 		telemetry.on('pr.startReview');
+		CommentDrafts.useDraftAsInput(thread);
 		handler.startReview(thread);
 	}));
 
 	context.subscriptions.push(vscode.commands.registerCommand('pr.finishReview', async (handler: CommentHandler, thread: vscode.CommentThread) => {
 		telemetry.on('pr.finishReview');
+		CommentDrafts.useDraftAsInput(thread);
 		await handler.finishReview(thread);
 	}));
 
@@ -411,8 +578,35 @@ export function registerCommands(context: vscode.ExtensionContext, prManager: Pu
 		await handler.deleteComment(thread, comment);
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('pr.applySuggestion', async (handler: CommentHandler, thread: vscode.CommentThread) => {
+		telemetry.on('pr.applySuggestion');
+		await applySuggestion(prManager, handler, thread, false);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('pr.applySuggestionAndCommit', async (handler: CommentHandler, thread: vscode.CommentThread) => {
+		telemetry.on('pr.applySuggestionAndCommit');
+		await applySuggestion(prManager, handler, thread, true);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('pr.resolveReviewThread', async (handler: CommentHandler, thread: vscode.CommentThread) => {
+		telemetry.on('pr.resolveReviewThread');
+		await setReviewThreadResolved(prManager, handler, thread, true);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('pr.unresolveReviewThread', async (handler: CommentHandler, thread: vscode.CommentThread) => {
+		telemetry.on('pr.unresolveReviewThread');
+		await setReviewThreadResolved(prManager, handler, thread, false);
+	}));
+
 	context.subscriptions.push(vscode.commands.registerCommand('pr.deleteThread', async (thread: vscode.CommentThread) => {
 		telemetry.on('pr.deleteThread');
+		await CommentDrafts.discardDraft(thread);
 		thread.dispose!();
 	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('pr.saveCommentDraft', async (thread: vscode.CommentThread) => {
+		telemetry.on('pr.saveCommentDraft');
+		await CommentDrafts.saveDraft(thread);
+		updateCommentThreadLabel(thread);
+	}));
 }
@@ -14,6 +14,17 @@ export interface Reaction {
 	viewerHasReacted: boolean;
 }
 
+export type DiffSide = 'LEFT' | 'RIGHT';
+
+/**
+ * The first and last lines spanned by a comment, in the file on one side of the diff.
+ */
+export interface MultiLineCommentRange {
+	startLine: number;
+	line: number;
+	side: DiffSide;
+}
+
 export interface Comment {
 	absolutePosition?: number;
 	bodyHTML?: string;
@@ -29,6 +40,21 @@ export interface Comment {
 	commitId?: string;
 	originalPosition?: number;
 	originalCommitId?: string;
+	/**
+	 * For comments spanning several lines, the first and last lines they span in the file on the `side` of the diff.
+	 */
+	startLine?: number;
+	line?: number;
+	side?: DiffSide;
+	/**
+	 * The GraphQL node id of the review thread the comment is part of, and whether that conversation is resolved.
+	 */
+	reviewThreadId?: string;
+	isResolved?: boolean;
+	/**
+	 * For outdated comments, the line the commented line moved to in the head of the pull request, if it still exists there.
+	 */
+	relocatedLine?: number;
 	user?: IAccount;
 	body: string;
 	createdAt: string;
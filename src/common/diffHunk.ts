@@ -260,7 +260,7 @@ export async function parseDiff(reviews: IRawFileChange[], repository: Repositor
 		const gitChangeType = getGitChangeType(review.status);
 
 		if (!review.patch) {
-			fileChanges.push(new SlimFileChange(review.blob_url, gitChangeType, review.filename));
+			fileChanges.push(new SlimFileChange(review.blob_url, gitChangeType, review.filename, review.sha));
 			continue;
 		}
 
@@ -284,7 +284,7 @@ export async function parseDiff(reviews: IRawFileChange[], repository: Repositor
 
 		let diffHunks = parsePatch(review.patch);
 		let isPartial = !originalFileExist && gitChangeType !== GitChangeType.ADD;
-		fileChanges.push(new InMemFileChange(parentCommit, gitChangeType, review.filename, review.previous_filename, review.patch, diffHunks, isPartial, review.blob_url));
+		fileChanges.push(new InMemFileChange(parentCommit, gitChangeType, review.filename, review.previous_filename, review.patch, diffHunks, isPartial, review.blob_url, review.sha));
 	}
 
 	return fileChanges;
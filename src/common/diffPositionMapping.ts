@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { DiffLine, DiffHunk, parseDiffHunk, DiffChangeType } from './diffHunk';
-import { Comment } from './comment';
+import { Comment, MultiLineCommentRange } from './comment';
 
 /**
  * Line position in a git diff is 1 based, except for the case when the original or changed file have
@@ -25,12 +25,17 @@ export function getZeroBased(line: number): number {
  * For the base file, only the old line number of the comment should be considered. If it's -1, the comment
  * is on a line that is entirely new, so the comment should not be displayed on the base file. This means
  * that for the modified file, if the comment has a non-negative old line number, it has already been
- * displayed on the base and does not need to be shown again.
+ * displayed on the base and does not need to be shown again. Outdated comments relocated to the head of the
+ * pull request are only shown on the modified file.
  * @param comment The comment
  * @param fileDiffHunks The diff hunks of the file
  * @param isBase Whether the file, if a diff, is the base or modified
  */
 export function getAbsolutePosition(comment: Comment, fileDiffHunks: DiffHunk[], isBase: boolean): number {
+	if (comment.relocatedLine !== undefined) {
+		return isBase ? -1 : comment.relocatedLine;
+	}
+
 	let commentAbsolutePosition = -1;
 	// Ignore outdated comments
 	if (comment.position !== null) {
@@ -160,9 +165,49 @@ export function mapOldPositionToNew(patch: string, line: number): number {
 	return line + delta;
 }
 
+/**
+ * Follow a line of the old side of a patch to the new side. Unlike `mapOldPositionToNew`, this returns undefined
+ * when the line was changed or removed by the patch.
+ */
+export function mapOldLineToNew(patch: string, line: number): number | undefined {
+	let diffReader = parseDiffHunk(patch);
+	let diffIter = diffReader.next();
+
+	let delta = 0;
+	while (!diffIter.done) {
+		let diffHunk = diffIter.value;
+
+		if (diffHunk.oldLineNumber > line) {
+			break;
+		}
+
+		if (diffHunk.oldLineNumber + diffHunk.oldLength - 1 < line) {
+			// Count the lines, as the length of a hunk only adding lines is read as one
+			delta += diffHunk.diffLines.filter(l => l.type === DiffChangeType.Add).length
+				- diffHunk.diffLines.filter(l => l.type === DiffChangeType.Delete).length;
+		} else {
+			const diffLine = diffHunk.diffLines.find(l => l.oldLineNumber === line);
+			if (!diffLine) {
+				// A hunk only adding lines inserts them after the line it starts at
+				return line + delta;
+			}
+
+			return diffLine.type === DiffChangeType.Context ? diffLine.newLineNumber : undefined;
+		}
+
+		diffIter = diffReader.next();
+	}
+
+	return line + delta;
+}
+
 export function mapCommentsToHead(diffHunks: DiffHunk[], localDiff: string, comments: Comment[]) {
 	for (let i = 0; i < comments.length; i++) {
 		const comment = comments[i];
+		if (comment.relocatedLine !== undefined) {
+			comment.absolutePosition = mapOldPositionToNew(localDiff, comment.relocatedLine);
+			continue;
+		}
 
 		// Diff line is null when the original line the comment was on has been removed
 		const diffLine = getDiffLineByPosition(diffHunks, comment.position || comment.originalPosition!);
@@ -174,4 +219,19 @@ export function mapCommentsToHead(diffHunks: DiffHunk[], localDiff: string, comm
 	}
 
 	return comments;
+}
+
+/**
+ * The lines, in the file on one side of the diff, of a comment spanning from one position in the diff to another.
+ */
+export function getMultiLineCommentRange(diffHunks: DiffHunk[], startPosition: number, endPosition: number, isBase: boolean): MultiLineCommentRange | undefined {
+	const startDiffLine = getDiffLineByPosition(diffHunks, startPosition);
+	const endDiffLine = getDiffLineByPosition(diffHunks, endPosition);
+	if (!startDiffLine || !endDiffLine) {
+		return undefined;
+	}
+
+	return isBase
+		? { startLine: startDiffLine.oldLineNumber, line: endDiffLine.oldLineNumber, side: 'LEFT' }
+		: { startLine: startDiffLine.newLineNumber, line: endDiffLine.newLineNumber, side: 'RIGHT' };
 }
\ No newline at end of file
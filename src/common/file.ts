@@ -27,7 +27,8 @@ export class InMemFileChange {
 		public readonly diffHunks: DiffHunk[],
 
 		public readonly isPartial: boolean,
-		public readonly blobUrl: string
+		public readonly blobUrl: string,
+		public readonly blobSha?: string
 	) { }
 }
 
@@ -35,6 +36,7 @@ export class SlimFileChange {
 	constructor(
 		public readonly blobUrl: string,
 		public readonly status: GitChangeType,
-		public readonly fileName: string
+		public readonly fileName: string,
+		public readonly blobSha?: string
 	) { }
 }
\ No newline at end of file
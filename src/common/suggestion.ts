@@ -0,0 +1,77 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const SUGGESTION_REGEX = /^```suggestion[^\S\r\n]*\r?\n([\s\S]*?)^```/m;
+const PATCH_CONTEXT_LENGTH = 3;
+
+/**
+ * The lines suggested in a ```suggestion block of a comment body, or undefined if there is none.
+ * An empty suggestion removes the lines it was made on.
+ */
+export function getSuggestedLines(body: string): string[] | undefined {
+	const match = SUGGESTION_REGEX.exec(body);
+	if (!match) {
+		return undefined;
+	}
+
+	const suggestion = match[1].replace(/\r?\n$/, '');
+	return match[1] ? suggestion.split(/\r?\n/) : [];
+}
+
+export function createSuggestionBody(lines: string[]): string {
+	return ['```suggestion', ...lines, '```'].join('\n');
+}
+
+/**
+ * Create a patch replacing the lines from `startLine` to `endLine`, one based and inclusive, of a file by the
+ * suggested lines. `content` is the current content of the file, which provides the context of the patch.
+ */
+export function createSuggestionPatch(fileName: string, content: string, startLine: number, endLine: number, suggestedLines: string[]): string {
+	const lines = content.split('\n');
+	const hasFinalNewline = lines[lines.length - 1] === '';
+	if (hasFinalNewline) {
+		lines.pop();
+	}
+
+	if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+		throw new Error(`Lines ${startLine} to ${endLine} are not in ${fileName}`);
+	}
+
+	const cr = content.indexOf('\r\n') !== -1 ? '\r' : '';
+	const contextStart = Math.max(startLine - 1 - PATCH_CONTEXT_LENGTH, 0);
+	const contextEnd = Math.min(endLine + PATCH_CONTEXT_LENGTH, lines.length);
+	const before = lines.slice(contextStart, startLine - 1).map(line => ` ${line}`);
+	const removed = lines.slice(startLine - 1, endLine).map(line => `-${line}`);
+	const added = suggestedLines.map(line => `+${line}${cr}`);
+	const after = lines.slice(endLine, contextEnd).map(line => ` ${line}`);
+
+	// The last line of the file is part of the patch, and has no line break
+	if (!hasFinalNewline && contextEnd === lines.length) {
+		const noNewline = '\\ No newline at end of file';
+		if (after.length) {
+			after.push(noNewline);
+		} else {
+			removed.push(noNewline);
+			if (added.length) {
+				added.push(noNewline);
+			}
+		}
+	}
+
+	const oldLength = before.length + endLine - startLine + 1 + after.length;
+	const newLength = before.length + suggestedLines.length + after.length;
+	const newStart = newLength ? contextStart + 1 : contextStart;
+
+	return [
+		`diff --git a/${fileName} b/${fileName}`,
+		`--- a/${fileName}`,
+		`+++ b/${fileName}`,
+		`@@ -${contextStart + 1},${oldLength} +${newStart},${newLength} @@`,
+		...before,
+		...removed,
+		...added,
+		...after
+	].join('\n') + '\n';
+}
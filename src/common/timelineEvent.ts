@@ -58,6 +58,7 @@ export interface CommitEvent {
 	htmlUrl: string;
 	message: string;
 	bodyHTML?: string;
+	committedDate?: string;
 }
 
 export interface MergedEvent {
@@ -99,4 +100,20 @@ export function isMergedEvent(event: TimelineEvent): event is MergedEvent {
 
 export function isAssignEvent(event: TimelineEvent): event is AssignEvent {
 	return event.event === EventType.Assigned;
+}
+
+export function getEventDate(event: TimelineEvent): string | undefined {
+	if (isCommentEvent(event) || isMergedEvent(event)) {
+		return event.createdAt;
+	}
+
+	if (isReviewEvent(event)) {
+		return event.submittedAt;
+	}
+
+	if (isCommitEvent(event)) {
+		return event.committedDate;
+	}
+
+	return undefined;
 }
\ No newline at end of file
@@ -92,12 +92,14 @@ export function toReviewUri(uri: Uri, filePath: string | undefined, ref: string
 export interface FileChangeNodeUriParams {
 	hasComments?: boolean;
 	status?: GitChangeType;
+	viewed?: boolean;
 }
 
-export function toResourceUri(uri: Uri, hasComments: boolean, status: GitChangeType) {
+export function toResourceUri(uri: Uri, hasComments: boolean, status: GitChangeType, viewed: boolean = false) {
 	const params = {
 		hasComments: hasComments,
-		status: status
+		status: status,
+		viewed: viewed
 	};
 
 	return uri.with({
@@ -111,6 +113,34 @@ export function fromFileChangeNodeUri(uri: Uri): FileChangeNodeUriParams | undef
 	} catch (e) { }
 }
 
+export interface PRNodeUriParams {
+	owner: string;
+	repositoryName: string;
+	prNumber: number;
+}
+
+export function toPRNodeUri(pullRequestModel: PullRequestModel): Uri {
+	const params: PRNodeUriParams = {
+		owner: pullRequestModel.remote.owner,
+		repositoryName: pullRequestModel.remote.repositoryName,
+		prNumber: pullRequestModel.prNumber
+	};
+
+	return Uri.parse(`pr-node:/${params.owner}/${params.repositoryName}/${params.prNumber}`).with({
+		query: JSON.stringify(params)
+	});
+}
+
+export function fromPRNodeUri(uri: Uri): PRNodeUriParams | undefined {
+	if (uri.scheme !== 'pr-node') {
+		return undefined;
+	}
+
+	try {
+		return JSON.parse(uri.query) as PRNodeUriParams;
+	} catch (e) { }
+}
+
 export function toPRUri(uri: Uri, pullRequestModel: PullRequestModel, baseCommit: string, headCommit: string, fileName: string, base: boolean, status: GitChangeType): Uri {
 	const params: PRUriParams = {
 		baseCommit: baseCommit,
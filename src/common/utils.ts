@@ -131,6 +131,20 @@ export function formatError(e: any): string {
 	}
 }
 
+const NETWORK_ERROR_REGEX = /\b(ENOTFOUND|EAI_AGAIN|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENETUNREACH|EHOSTUNREACH)\b|socket hang up/i;
+
+/**
+ * Whether the error means that GitHub could not be reached, rather than that it rejected the request.
+ * Octokit and Apollo both wrap the underlying fetch error, so only its message is left to look at.
+ */
+export function isNetworkError(e: any): boolean {
+	if (!e) {
+		return false;
+	}
+
+	return NETWORK_ERROR_REGEX.test(e.code || '') || NETWORK_ERROR_REGEX.test(e.message || '');
+}
+
 export interface PromiseAdapter<T, U> {
 	(
 		value: T,
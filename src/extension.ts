@@ -17,6 +17,11 @@ import { Telemetry } from './common/telemetry';
 import { handler as uriHandler } from './common/uri';
 import { ITelemetry } from './github/interface';
 import * as Keychain from './authentication/keychain';
+import * as ReadState from './github/readState';
+import * as Pins from './github/pins';
+import * as ViewedFiles from './github/viewedFiles';
+import * as CommentDrafts from './github/commentDrafts';
+import * as OfflineCache from './github/offlineCache';
 import { FileTypeDecorationProvider } from './view/fileTypeDecorationProvider';
 import { PullRequestsTreeDataProvider } from './view/prsTreeDataProvider';
 import { ApiImpl } from './api/api1';
@@ -34,6 +39,11 @@ async function init(context: vscode.ExtensionContext, git: ApiImpl, repository:
 	Logger.appendLine('Git repository found, initializing review manager and pr tree view.');
 
 	Keychain.init(context);
+	ReadState.init(context);
+	Pins.init(context);
+	ViewedFiles.init(context);
+	CommentDrafts.init(context);
+	OfflineCache.init(context);
 	await migrateConfiguration();
 	context.subscriptions.push(Keychain.onDidChange(async _ => {
 		if (prManager) {
@@ -7,6 +7,9 @@ import * as vscode from 'vscode';
 import { PRNode } from '../view/treeNodes/pullRequestNode';
 import { ReviewDocumentCommentProvider } from '../view/reviewDocumentCommentProvider';
 import { CommentHandler } from './utils';
+import { Comment } from '../common/comment';
+import { getSuggestedLines } from '../common/suggestion';
+import * as CommentDrafts from './commentDrafts';
 
 export function getAcceptInputCommands(thread: vscode.CommentThread, inDraftMode: boolean, handler: CommentHandler, supportGraphQL: boolean): { acceptInputCommand: vscode.Command, additionalCommands: vscode.Command[] } {
 	let commands: vscode.Command[] = [];
@@ -30,7 +33,7 @@ export function getAcceptInputCommands(thread: vscode.CommentThread, inDraftMode
 			});
 
 			commands.push({
-				title: 'Finish Review',
+				title: 'Finish Review...',
 				command: 'pr.finishReview',
 				arguments: [
 					handler,
@@ -47,14 +50,57 @@ export function getAcceptInputCommands(thread: vscode.CommentThread, inDraftMode
 				]
 			});
 		}
+
+		const firstComment = getRawComment(thread.comments[0]);
+		if (firstComment && firstComment.reviewThreadId) {
+			commands.push({
+				title: firstComment.isResolved ? 'Unresolve Conversation' : 'Resolve Conversation',
+				command: firstComment.isResolved ? 'pr.unresolveReviewThread' : 'pr.resolveReviewThread',
+				arguments: [
+					handler,
+					thread
+				]
+			});
+		}
 	}
 
+	if (thread.comments.some(comment => hasSuggestion(comment))) {
+		commands.push({
+			title: 'Apply Suggestion',
+			command: 'pr.applySuggestion',
+			arguments: [
+				handler,
+				thread
+			]
+		});
+
+		commands.push({
+			title: 'Apply and Commit',
+			command: 'pr.applySuggestionAndCommit',
+			arguments: [
+				handler,
+				thread
+			]
+		});
+	}
+
+	commands.push(CommentDrafts.getSaveDraftCommand(thread));
+
 	return {
 		acceptInputCommand: acceptInputCommand,
 		additionalCommands: commands
 	};
 }
 
+function getRawComment(comment: vscode.Comment | undefined): Comment | undefined {
+	return comment && (comment as vscode.Comment & { _rawComment?: Comment })._rawComment;
+}
+
+function hasSuggestion(comment: vscode.Comment): boolean {
+	const rawComment = getRawComment(comment);
+	return !!rawComment && !!getSuggestedLines(rawComment.body);
+}
+
 export function getEditCommand(thread: vscode.CommentThread, vscodeComment: vscode.Comment, handler: PRNode | ReviewDocumentCommentProvider): vscode.Command {
 	return {
 		title: 'Edit Comment',
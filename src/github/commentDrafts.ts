@@ -0,0 +1,319 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import Logger from '../common/logger';
+import { formatError } from '../common/utils';
+import { PullRequestModel } from './pullRequestModel';
+import { getPullRequestKey } from './readState';
+
+export type WorkspaceStateContext = { workspaceState: vscode.Memento };
+
+/**
+ * The text of a comment that was not sent yet, either the first comment of a new thread or a reply. Lines are zero
+ * based.
+ */
+export interface CommentDraft {
+	uri: string;
+	startLine: number;
+	endLine: number;
+	body: string;
+	isNewThread: boolean;
+	/**
+	 * The time, in milliseconds since the epoch, at which the draft was saved.
+	 */
+	savedAt: number;
+}
+
+/**
+ * For each pull request, the drafts of its comment threads by thread id.
+ */
+type CommentDraftsState = { [pullRequestKey: string]: { [threadId: string]: CommentDraft } };
+
+/**
+ * For each pull request, the drafts of the comments being edited in its overview, by comment id.
+ */
+type OverviewDraftsState = { [pullRequestKey: string]: { [id: string]: string } };
+
+const COMMENT_DRAFTS_KEY = 'githubPullRequests.commentDrafts';
+const OVERVIEW_DRAFTS_KEY = 'githubPullRequests.overviewCommentDrafts';
+const SAVE_DRAFT_COMMAND = 'pr.saveCommentDraft';
+/**
+ * Drafts left alone for longer than this are forgotten, as the pull request they were written for may be gone.
+ */
+const MAX_DRAFT_AGE = 30 * 24 * 60 * 60 * 1000;
+
+let defaultStorage: vscode.Memento | undefined = undefined;
+
+interface TrackedThread {
+	thread: vscode.CommentThread;
+	pullRequest: PullRequestModel;
+	commentController: vscode.CommentController;
+}
+
+/**
+ * The comment threads whose drafts can be saved, by document and thread id. The input box of a controller is the one
+ * of its thread that has focus, and the API doesn't tell which thread that is, except to the commands run from a
+ * thread. Drafts are only read from and written to the input box from such commands.
+ */
+const trackedThreads = new Map<string, TrackedThread>();
+
+export function init(ctx: WorkspaceStateContext) {
+	defaultStorage = ctx.workspaceState;
+	pruneDrafts(draft => Date.now() - draft.savedAt > MAX_DRAFT_AGE).catch(e =>
+		Logger.appendLine(`Forgetting old comment drafts failed: ${formatError(e)}`));
+}
+
+export function getDraft(pullRequest: PullRequestModel, threadId: string, { storage = defaultStorage } = {}): CommentDraft | undefined {
+	if (!storage) {
+		return undefined;
+	}
+
+	const drafts = storage.get<CommentDraftsState>(COMMENT_DRAFTS_KEY, {})[getPullRequestKey(pullRequest)];
+	return drafts && drafts[threadId];
+}
+
+/**
+ * The drafts of the new threads of a document, by thread id.
+ */
+export function getNewThreadDrafts(pullRequest: PullRequestModel, uri: vscode.Uri, { storage = defaultStorage } = {}): { [threadId: string]: CommentDraft } {
+	if (!storage) {
+		return {};
+	}
+
+	const drafts = storage.get<CommentDraftsState>(COMMENT_DRAFTS_KEY, {})[getPullRequestKey(pullRequest)] || {};
+	const result: { [threadId: string]: CommentDraft } = {};
+	Object.keys(drafts)
+		.filter(threadId => drafts[threadId].isNewThread && drafts[threadId].uri === uri.toString())
+		.forEach(threadId => result[threadId] = drafts[threadId]);
+	return result;
+}
+
+export async function setDraft(pullRequest: PullRequestModel, threadId: string, draft: CommentDraft | undefined, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	const key = getPullRequestKey(pullRequest);
+	const state = { ...storage.get<CommentDraftsState>(COMMENT_DRAFTS_KEY, {}) };
+	const drafts = { ...state[key] };
+	if (draft) {
+		drafts[threadId] = draft;
+	} else {
+		delete drafts[threadId];
+	}
+
+	if (Object.keys(drafts).length) {
+		state[key] = drafts;
+	} else {
+		delete state[key];
+	}
+
+	await storage.update(COMMENT_DRAFTS_KEY, state);
+}
+
+/**
+ * Forget the drafts of pull requests that were closed or merged, which can no longer be commented on.
+ */
+export async function forgetClosedPullRequests(pullRequests: PullRequestModel[], { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	const keys = pullRequests.filter(pullRequest => !pullRequest.isOpen).map(getPullRequestKey);
+	const commentDrafts = storage.get<CommentDraftsState>(COMMENT_DRAFTS_KEY, {});
+	const overviewDrafts = storage.get<OverviewDraftsState>(OVERVIEW_DRAFTS_KEY, {});
+	const closedKeys = keys.filter(key => commentDrafts[key] || overviewDrafts[key]);
+	if (!closedKeys.length) {
+		return;
+	}
+
+	const newCommentDrafts = { ...commentDrafts };
+	const newOverviewDrafts = { ...overviewDrafts };
+	closedKeys.forEach(key => {
+		delete newCommentDrafts[key];
+		delete newOverviewDrafts[key];
+	});
+	await Promise.all([
+		storage.update(COMMENT_DRAFTS_KEY, newCommentDrafts),
+		storage.update(OVERVIEW_DRAFTS_KEY, newOverviewDrafts)
+	]);
+}
+
+/**
+ * Forget the comment drafts matching a predicate, in all pull requests.
+ */
+export async function pruneDrafts(predicate: (draft: CommentDraft) => boolean, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	let changed = false;
+	const state: CommentDraftsState = {};
+	const oldState = storage.get<CommentDraftsState>(COMMENT_DRAFTS_KEY, {});
+	for (const key of Object.keys(oldState)) {
+		const drafts: { [threadId: string]: CommentDraft } = {};
+		for (const threadId of Object.keys(oldState[key])) {
+			if (predicate(oldState[key][threadId])) {
+				changed = true;
+			} else {
+				drafts[threadId] = oldState[key][threadId];
+			}
+		}
+
+		if (Object.keys(drafts).length) {
+			state[key] = drafts;
+		}
+	}
+
+	if (changed) {
+		await storage.update(COMMENT_DRAFTS_KEY, state);
+	}
+}
+
+/**
+ * The new threads of a document whose draft was kept, and which need to be created again.
+ */
+export function getDraftsToRestore(pullRequest: PullRequestModel, uri: vscode.Uri): { [threadId: string]: CommentDraft } {
+	const drafts = getNewThreadDrafts(pullRequest, uri);
+	Object.keys(drafts)
+		.filter(threadId => trackedThreads.has(getThreadKey(uri, threadId)))
+		.forEach(threadId => delete drafts[threadId]);
+	return drafts;
+}
+
+/**
+ * Follow a thread of a comment controller, so that its draft can be saved, shown and sent from its commands.
+ */
+export function trackThread(pullRequest: PullRequestModel, commentController: vscode.CommentController, thread: vscode.CommentThread): void {
+	trackedThreads.set(getThreadKey(thread.resource, thread.threadId), { thread, pullRequest, commentController });
+}
+
+/**
+ * Stop following the threads of a comment controller that is disposed.
+ */
+export function untrackThreads(commentController: vscode.CommentController): void {
+	for (const [key, tracked] of Array.from(trackedThreads.entries())) {
+		if (tracked.commentController === commentController) {
+			trackedThreads.delete(key);
+		}
+	}
+}
+
+export function hasDraft(thread: vscode.CommentThread): boolean {
+	return !!getThreadDraft(thread);
+}
+
+/**
+ * A short description of the draft of a thread, to show in its label.
+ */
+export function getDraftLabel(thread: vscode.CommentThread): string | undefined {
+	const draft = getThreadDraft(thread);
+	if (!draft) {
+		return undefined;
+	}
+
+	const firstLine = draft.body.split(/\r?\n/)[0];
+	const summary = firstLine.length > 50 || draft.body.length > firstLine.length ? `${firstLine.substr(0, 50)}…` : firstLine;
+	return `Unsent draft: "${summary}"`;
+}
+
+export function getSaveDraftCommand(thread: vscode.CommentThread): vscode.Command {
+	return {
+		title: 'Save Draft',
+		command: SAVE_DRAFT_COMMAND,
+		arguments: [
+			thread
+		]
+	};
+}
+
+/**
+ * Keep the text of the input box of a thread as its draft. Must be run from a command of the thread, for the input
+ * box of the controller to be the one of the thread.
+ */
+export async function saveDraft(thread: vscode.CommentThread): Promise<void> {
+	const tracked = getTrackedThread(thread);
+	const body = tracked && tracked.commentController.inputBox ? tracked.commentController.inputBox.value : '';
+	if (!tracked || !body) {
+		return;
+	}
+
+	await setDraft(tracked.pullRequest, thread.threadId, {
+		uri: thread.resource.toString(),
+		startLine: thread.range.start.line,
+		endLine: thread.range.end.line,
+		body,
+		isNewThread: !thread.comments.length,
+		savedAt: Date.now()
+	});
+}
+
+/**
+ * Put the draft of a thread in its input box when the box is empty, so that sending an empty comment sends the draft.
+ * Must be run from a command of the thread, for the input box of the controller to be the one of the thread.
+ */
+export function useDraftAsInput(thread: vscode.CommentThread): void {
+	const tracked = getTrackedThread(thread);
+	const draft = getThreadDraft(thread);
+	if (tracked && draft && tracked.commentController.inputBox && !tracked.commentController.inputBox.value) {
+		tracked.commentController.inputBox.value = draft.body;
+	}
+}
+
+/**
+ * Forget the draft of a thread, once its comment was sent or the thread was deleted.
+ */
+export async function discardDraft(thread: vscode.CommentThread): Promise<void> {
+	const tracked = getTrackedThread(thread);
+	if (!tracked) {
+		return;
+	}
+
+	if (!thread.comments.length) {
+		// The thread was deleted
+		trackedThreads.delete(getThreadKey(thread.resource, thread.threadId));
+	}
+
+	await setDraft(tracked.pullRequest, thread.threadId, undefined);
+}
+
+function getThreadKey(uri: vscode.Uri, threadId: string): string {
+	return `${uri.toString()}#${threadId}`;
+}
+
+function getTrackedThread(thread: vscode.CommentThread): TrackedThread | undefined {
+	const tracked = trackedThreads.get(getThreadKey(thread.resource, thread.threadId));
+	return tracked && tracked.thread === thread ? tracked : undefined;
+}
+
+function getThreadDraft(thread: vscode.CommentThread): CommentDraft | undefined {
+	const tracked = getTrackedThread(thread);
+	return tracked && getDraft(tracked.pullRequest, thread.threadId);
+}
+
+export function getOverviewDrafts(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): { [id: string]: string } {
+	if (!storage) {
+		return {};
+	}
+
+	return storage.get<OverviewDraftsState>(OVERVIEW_DRAFTS_KEY, {})[getPullRequestKey(pullRequest)] || {};
+}
+
+export async function setOverviewDrafts(pullRequest: PullRequestModel, drafts: { [id: string]: string }, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	const key = getPullRequestKey(pullRequest);
+	const state = { ...storage.get<OverviewDraftsState>(OVERVIEW_DRAFTS_KEY, {}) };
+	if (Object.keys(drafts).length) {
+		state[key] = drafts;
+	} else {
+		delete state[key];
+	}
+
+	await storage.update(OVERVIEW_DRAFTS_KEY, state);
+}
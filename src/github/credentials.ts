@@ -184,7 +184,8 @@ export class CredentialStore implements vscode.Disposable {
 			headers: {
 				'user-agent': 'GitHub VSCode Pull Requests',
 				// `shadow-cat-preview` is required for Draft PR API access -- https://developer.github.com/v3/previews/#draft-pull-requests
-				Accept: 'application/vnd.github.shadow-cat-preview+json'
+				// `comfort-fade-preview` is required for multi-line comments -- https://developer.github.com/v3/previews/#multi-line-comments
+				Accept: 'application/vnd.github.shadow-cat-preview+json, application/vnd.github.comfort-fade-preview+json'
 			}
 		});
 
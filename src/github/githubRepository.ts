@@ -7,14 +7,17 @@ import * as vscode from 'vscode';
 import Octokit = require('@octokit/rest');
 import Logger from '../common/logger';
 import { Remote, parseRemote } from '../common/remote';
-import { IGitHubRepository, IAccount, MergeMethodsAvailability } from './interface';
+import { IGitHubRepository, IAccount, MergeMethodsAvailability, PullRequest } from './interface';
 import { PullRequestModel } from './pullRequestModel';
 import { CredentialStore, GitHub } from './credentials';
 import { AuthenticationError } from '../common/authentication';
 import { QueryOptions, MutationOptions, ApolloQueryResult, NetworkStatus, FetchResult } from 'apollo-boost';
 import { PRDocumentCommentProvider } from '../view/prDocumentCommentProvider';
-import { convertRESTPullRequestToRawPullRequest, parseGraphQLPullRequest } from './utils';
-import { PullRequestResponse, MentionableUsersResponse } from './graphql';
+import { convertRESTPullRequestToRawPullRequest, parseGraphQLPullRequest, parseGraphQLChecksState, parseGraphQLReviewDecision } from './utils';
+import { PullRequestResponse, MentionableUsersResponse, PullRequestStatusesResponse } from './graphql';
+import { replaceQueryVariables } from './queryFilters';
+import * as OfflineCache from './offlineCache';
+import { isNetworkError } from '../common/utils';
 const queries = require('./queries.gql');
 
 export const PULL_REQUEST_PAGE_SIZE = 20;
@@ -30,6 +33,13 @@ export interface IMetadata extends Octokit.ReposGetResponse {
 	currentUser: any;
 }
 
+interface PullRequestListETag {
+	etag: string;
+	searchQuery?: string;
+}
+
+const ALL_PULL_REQUESTS_KEY = 'all';
+
 export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 	static ID = 'GitHubRepository';
 	protected _initialized: boolean;
@@ -39,6 +49,7 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 	public commentsController?: vscode.CommentController;
 	public commentsProvider?: PRDocumentCommentProvider;
 	public readonly isGitHubDotCom: boolean;
+	private _pullRequestListETags = new Map<string, PullRequestListETag>();
 
 	public get hub(): GitHub {
 		if (!this._hub) {
@@ -223,6 +234,10 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 			});
 
 			const hasMorePages = !!result.headers.link && result.headers.link.indexOf('rel="next"') > -1;
+			if ((page || 1) === 1 && result.headers.etag) {
+				this._pullRequestListETags.set(ALL_PULL_REQUESTS_KEY, { etag: result.headers.etag });
+			}
+
 			if (!result.data) {
 				// We really don't expect this to happen, but it seems to (see #574).
 				// Log a warning and return an empty set.
@@ -271,11 +286,16 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 			const user = await octokit.users.getAuthenticated({});
 			// Search api will not try to resolve repo that redirects, so get full name first
 			const repo = await octokit.repos.get({ owner: this.remote.owner, repo: this.remote.repositoryName });
+			const searchQuery = this.getPRFetchQuery(repo.data.full_name, user.data.login, categoryQuery);
 			const { data, headers } = await octokit.search.issues({
-				q: this.getPRFetchQuery(repo.data.full_name, user.data.login, categoryQuery),
+				q: searchQuery,
 				per_page: PULL_REQUEST_PAGE_SIZE,
 				page: page || 1
 			});
+			if ((page || 1) === 1 && headers.etag) {
+				this._pullRequestListETags.set(`query:${categoryQuery}`, { etag: headers.etag, searchQuery });
+			}
+
 			let promises: Promise<Octokit.Response<Octokit.PullsGetResponse>>[] = [];
 			data.items.forEach((item: any /** unluckily Octokit.AnyResponse */) => {
 				promises.push(new Promise(async (resolve, reject) => {
@@ -317,6 +337,88 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 		}
 	}
 
+	/**
+	 * Check whether the first page of pull requests, for the given category query or for all pull requests
+	 * if no query is given, has changed since it was last fetched. This sends a conditional request with the
+	 * ETag of the last response; GitHub answers it with 304 Not Modified, which doesn't count against the
+	 * rate limit, when nothing has changed.
+	 */
+	async hasPullRequestsChanged(categoryQuery?: string): Promise<boolean> {
+		const key = categoryQuery === undefined ? ALL_PULL_REQUESTS_KEY : `query:${categoryQuery}`;
+		const lastResponse = this._pullRequestListETags.get(key);
+		if (!lastResponse) {
+			// Never fetched, so there is nothing on screen to update
+			return false;
+		}
+
+		try {
+			const { octokit, remote } = await this.ensure();
+			const headers = { 'if-none-match': lastResponse.etag };
+			const result = lastResponse.searchQuery === undefined
+				? await octokit.request('GET /repos/:owner/:repo/pulls', {
+					owner: remote.owner,
+					repo: remote.repositoryName,
+					per_page: PULL_REQUEST_PAGE_SIZE,
+					page: 1,
+					headers
+				})
+				: await octokit.request('GET /search/issues', {
+					q: lastResponse.searchQuery,
+					per_page: PULL_REQUEST_PAGE_SIZE,
+					page: 1,
+					headers
+				});
+
+			return result.headers.etag !== lastResponse.etag;
+		} catch (e) {
+			if (e.status !== 304) {
+				Logger.appendLine(`GitHubRepository> Checking pull requests for changes failed: ${e}`);
+			}
+
+			return false;
+		}
+	}
+
+	/**
+	 * Fill in the combined check status and the review decision of the given pull requests, which must
+	 * belong to this repository, using a single GraphQL query.
+	 */
+	async getPullRequestStatuses(pullRequests: PullRequestModel[]): Promise<void> {
+		if (!pullRequests.length) {
+			return;
+		}
+
+		try {
+			Logger.debug(`Fetch pull request statuses - enter`, GitHubRepository.ID);
+			const { query, supportsGraphQl } = await this.ensure();
+			if (!supportsGraphQl) {
+				return;
+			}
+
+			const { data } = await query<PullRequestStatusesResponse>({
+				query: queries.PullRequestStatuses,
+				variables: {
+					ids: pullRequests.map(pullRequest => pullRequest.graphNodeId)
+				}
+			});
+
+			data.nodes.forEach(node => {
+				const pullRequest = node && pullRequests.find(pr => pr.graphNodeId === node.id);
+				if (!node || !pullRequest) {
+					return;
+				}
+
+				const lastCommit = node.commits.nodes[0];
+				const status = lastCommit && lastCommit.commit.status;
+				pullRequest.checksState = parseGraphQLChecksState(status ? status.state : undefined);
+				pullRequest.reviewDecision = parseGraphQLReviewDecision(node.reviewDecision);
+			});
+			Logger.debug(`Fetch pull request statuses - done`, GitHubRepository.ID);
+		} catch (e) {
+			Logger.appendLine(`GitHubRepository> Fetching pull request statuses failed: ${e}`);
+		}
+	}
+
 	async getPullRequest(id: number): Promise<PullRequestModel | undefined> {
 		try {
 			Logger.debug(`Fetch pull request ${id} - enter`, GitHubRepository.ID);
@@ -333,7 +435,9 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 				});
 				Logger.debug(`Fetch pull request ${id} - done`, GitHubRepository.ID);
 
-				return new PullRequestModel(this, remote, parseGraphQLPullRequest(data, this));
+				const item = parseGraphQLPullRequest(data, this);
+				OfflineCache.set(this.getPullRequestCacheKey(id), item).catch(e => Logger.appendLine(`Caching pull request ${id} failed: ${e}`, GitHubRepository.ID));
+				return new PullRequestModel(this, remote, item);
 			} else {
 				let { data } = await octokit.pulls.get({
 					owner: remote.owner,
@@ -347,14 +451,25 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 					return;
 				}
 
-				return new PullRequestModel(this, remote, convertRESTPullRequestToRawPullRequest(data, this));
+				const item = convertRESTPullRequestToRawPullRequest(data, this);
+				OfflineCache.set(this.getPullRequestCacheKey(id), item).catch(e => Logger.appendLine(`Caching pull request ${id} failed: ${e}`, GitHubRepository.ID));
+				return new PullRequestModel(this, remote, item);
 			}
 		} catch (e) {
 			Logger.appendLine(`GithubRepository> Unable to fetch PR: ${e}`);
+			const cached = isNetworkError(e) ? OfflineCache.get<PullRequest>(this.getPullRequestCacheKey(id)) : undefined;
+			if (cached) {
+				return new PullRequestModel(this, this.remote, cached.value);
+			}
+
 			return;
 		}
 	}
 
+	private getPullRequestCacheKey(id: number): string {
+		return `pullRequest:${this.remote.owner}/${this.remote.repositoryName}#${id}`;
+	}
+
 	async getMentionableUsers(): Promise<IAccount[]> {
 		Logger.debug(`Fetch mentionable users - enter`, GitHubRepository.ID);
 		const { query, supportsGraphQl, remote } = await this.ensure();
@@ -401,7 +516,7 @@ export class GitHubRepository implements IGitHubRepository, vscode.Disposable {
 	}
 
 	private getPRFetchQuery(repo: string, user: string, query: string) {
-		let filter = query.replace('${user}', user);
+		let filter = replaceQueryVariables(query, { user, repo });
 		return `is:open ${filter} type:pr repo:${repo}`;
 	}
 }
@@ -60,6 +60,7 @@ export interface ReviewComment {
 		login: string;
 		avatarUrl: string;
 		url: string;
+		databaseId?: number;
 	};
 	path: string;
 	originalPosition: number;
@@ -67,6 +68,9 @@ export interface ReviewComment {
 	bodyHTML: string;
 	diffHunk: string;
 	position: number;
+	startLine: number | null;
+	line: number | null;
+	diffSide: 'LEFT' | 'RIGHT';
 	state: string;
 	pullRequestReview: {
 		databaseId: number;
@@ -104,6 +108,7 @@ export interface Commit {
 	url: string;
 	oid: string;
 	message: string;
+	committedDate: string;
 }
 
 export interface AssignedEvent {
@@ -162,6 +167,15 @@ export interface PendingReviewIdResponse {
 	rateLimit: RateLimit;
 }
 
+export interface PendingReviewCommentsResponse {
+	node: {
+		comments: {
+			nodes: ReviewComment[];
+		}
+	};
+	rateLimit: RateLimit;
+}
+
 export interface PullRequestCommentsResponse {
 	repository: {
 		pullRequest: {
@@ -179,6 +193,31 @@ export interface PullRequestCommentsResponse {
 	rateLimit: RateLimit;
 }
 
+export interface ReviewThread {
+	id: string;
+	isResolved: boolean;
+	comments: {
+		nodes: {
+			id: string;
+		}[];
+	};
+}
+
+export interface ReviewThreadsResponse {
+	repository: {
+		pullRequest: {
+			reviewThreads: {
+				nodes: ReviewThread[];
+				pageInfo: {
+					hasNextPage: boolean;
+					endCursor: string;
+				};
+			}
+		}
+	};
+	rateLimit: RateLimit;
+}
+
 export interface MentionableUsersResponse {
 	repository: {
 		mentionableUsers: {
@@ -205,6 +244,16 @@ export interface AddCommentResponse {
 	};
 }
 
+export interface AddReviewThreadResponse {
+	addPullRequestReviewThread: {
+		thread: {
+			comments: {
+				nodes: ReviewComment[];
+			};
+		};
+	};
+}
+
 export interface EditCommentResponse {
 	updatePullRequestReviewComment: {
 		pullRequestReviewComment: ReviewComment;
@@ -242,6 +291,22 @@ export interface DeleteReviewResponse {
 	};
 }
 
+export interface ResolveReviewThreadResponse {
+	resolveReviewThread: {
+		thread: {
+			isResolved: boolean;
+		};
+	};
+}
+
+export interface UnresolveReviewThreadResponse {
+	unresolveReviewThread: {
+		thread: {
+			isResolved: boolean;
+		};
+	};
+}
+
 export interface AddReactionResponse {
 	addReaction: {
 		reaction: {
@@ -304,12 +369,32 @@ export interface PullRequestResponse {
 			}
 			merged: boolean;
 			mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+			additions: number;
+			deletions: number;
 			isDraft: boolean;
+			maintainerCanModify: boolean;
 		}
 	};
 	rateLimit: RateLimit;
 }
 
+export interface PullRequestStatusesResponse {
+	nodes: ({
+		id: string;
+		reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+		commits: {
+			nodes: {
+				commit: {
+					status: {
+						state: 'EXPECTED' | 'ERROR' | 'FAILURE' | 'PENDING' | 'SUCCESS';
+					} | null;
+				};
+			}[];
+		};
+	} | null)[];
+	rateLimit: RateLimit;
+}
+
 export interface QueryWithRateLimit {
 	rateLimit: RateLimit;
 }
@@ -6,7 +6,8 @@
 export enum PRType {
 	Query,
 	All,
-	LocalPullRequest
+	LocalPullRequest,
+	Pinned
 }
 
 export enum ReviewEvent {
@@ -28,6 +29,10 @@ export interface ReviewState {
 
 export interface IAccount {
 	login: string;
+	/**
+	 * The database id of the account, when GitHub returned it.
+	 */
+	id?: number;
 	name?: string;
 	avatarUrl?: string;
 	url: string;
@@ -72,8 +77,14 @@ export interface PullRequest {
 	user: IAccount;
 	labels: ILabel[];
 	merged: boolean;
+	/**
+	 * Whether the pull request can be merged without conflicts, or undefined while GitHub hasn't computed it yet.
+	 */
 	mergeable?: boolean;
+	additions?: number;
+	deletions?: number;
 	isDraft: boolean;
+	maintainerCanModify?: boolean;
 }
 
 export interface IRawFileChange {
@@ -86,10 +97,23 @@ export interface IRawFileChange {
 	raw_url: string;
 	blob_url: string;
 	patch: string;
+	/**
+	 * The sha of the file's blob at the head of the pull request.
+	 */
+	sha: string;
+}
+
+export interface IPageInformation {
+	pullRequestPage: number;
+	hasMorePages: boolean | null;
 }
 
 export interface IPullRequestsPagingOptions {
 	fetchNextPage: boolean;
+	/**
+	 * The next page to fetch from each GitHub repository, by remote url. Each category pages on its own.
+	 */
+	repositoryPageInformation: Map<string, IPageInformation>;
 }
 
 export interface IGitHubRepository {
@@ -107,6 +131,10 @@ export type MergeMethodsAvailability = {
 	[method in MergeMethod]: boolean;
 };
 
+export type ChecksState = 'success' | 'failure' | 'pending';
+
+export type ReviewDecision = 'approved' | 'changesRequested' | 'reviewRequired';
+
 export interface ITelemetry {
 	on(action: 'startup'): Promise<void>;
 	on(action: 'authSuccess'): Promise<void>;
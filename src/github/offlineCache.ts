@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+export type GlobalStateContext = { globalState: vscode.Memento };
+
+export interface ICachedValue<T> {
+	value: T;
+	/**
+	 * The time, in milliseconds since the epoch, at which the value was fetched from GitHub.
+	 */
+	cachedAt: number;
+}
+
+interface ICacheIndexEntry {
+	key: string;
+	/**
+	 * The length of the cached value serialized as JSON.
+	 */
+	size: number;
+}
+
+const CACHE_KEY_PREFIX = 'githubPullRequests.offlineCache.';
+/**
+ * The keys of the cached values, the most recently written first, so that the global state stays bounded by
+ * forgetting the values that weren't written for the longest time.
+ */
+const CACHE_INDEX_KEY = 'githubPullRequests.offlineCacheIndex';
+const MAX_ENTRIES = 100;
+const MAX_SIZE = 5 * 1024 * 1024;
+
+let defaultStorage: vscode.Memento | undefined = undefined;
+
+export function init(ctx: GlobalStateContext) {
+	defaultStorage = ctx.globalState;
+}
+
+/**
+ * Get the last value fetched from GitHub for the given key, to show while GitHub can't be reached.
+ */
+export function get<T>(key: string, { storage = defaultStorage } = {}): ICachedValue<T> | undefined {
+	return storage ? storage.get<ICachedValue<T>>(CACHE_KEY_PREFIX + key) : undefined;
+}
+
+export async function set<T>(key: string, value: T, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	const cached: ICachedValue<T> = { value, cachedAt: Date.now() };
+	const size = JSON.stringify(cached).length;
+	const index = storage.get<ICacheIndexEntry[]>(CACHE_INDEX_KEY, []).filter(entry => entry.key !== key);
+	const evicted: string[] = [];
+	if (size <= MAX_SIZE) {
+		index.unshift({ key, size });
+	} else {
+		evicted.push(key);
+	}
+
+	let totalSize = index.reduce((total, entry) => total + entry.size, 0);
+	while (index.length > MAX_ENTRIES || totalSize > MAX_SIZE) {
+		const entry = index.pop()!;
+		totalSize -= entry.size;
+		evicted.push(entry.key);
+	}
+
+	await Promise.all([
+		storage.update(CACHE_INDEX_KEY, index),
+		...(size <= MAX_SIZE ? [storage.update(CACHE_KEY_PREFIX + key, cached)] : []),
+		...evicted.map(evictedKey => storage.update(CACHE_KEY_PREFIX + evictedKey, undefined))
+	]);
+}
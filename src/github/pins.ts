@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { PullRequestModel } from './pullRequestModel';
+
+export type WorkspaceStateContext = { workspaceState: vscode.Memento };
+
+export interface IPinnedPullRequest {
+	owner: string;
+	repositoryName: string;
+	prNumber: number;
+}
+
+const PINNED_KEY = 'githubPullRequests.pinned';
+
+let defaultStorage: vscode.Memento | undefined = undefined;
+
+const didChange = new vscode.EventEmitter<void>();
+export const onDidChange = didChange.event;
+
+export function init(ctx: WorkspaceStateContext) {
+	defaultStorage = ctx.workspaceState;
+}
+
+function matches(pinned: IPinnedPullRequest, pullRequest: PullRequestModel): boolean {
+	return pinned.prNumber === pullRequest.prNumber
+		&& pinned.owner.toLowerCase() === pullRequest.remote.owner.toLowerCase()
+		&& pinned.repositoryName.toLowerCase() === pullRequest.remote.repositoryName.toLowerCase();
+}
+
+export function getPinnedPullRequests({ storage = defaultStorage } = {}): IPinnedPullRequest[] {
+	return storage ? storage.get<IPinnedPullRequest[]>(PINNED_KEY, []) : [];
+}
+
+export function isPinned(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): boolean {
+	return getPinnedPullRequests({ storage }).some(pinned => matches(pinned, pullRequest));
+}
+
+export async function pin(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage || isPinned(pullRequest, { storage })) {
+		return;
+	}
+
+	const pins = getPinnedPullRequests({ storage }).concat({
+		owner: pullRequest.remote.owner,
+		repositoryName: pullRequest.remote.repositoryName,
+		prNumber: pullRequest.prNumber
+	});
+	await storage.update(PINNED_KEY, pins);
+	didChange.fire();
+}
+
+export async function unpin(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage || !isPinned(pullRequest, { storage })) {
+		return;
+	}
+
+	const pins = getPinnedPullRequests({ storage }).filter(pinned => !matches(pinned, pullRequest));
+	await storage.update(PINNED_KEY, pins);
+	didChange.fire();
+}
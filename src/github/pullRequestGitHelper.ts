@@ -7,15 +7,22 @@
  * Inspired by and includes code from GitHub/VisualStudio project, obtained from https://github.com/github/VisualStudio/blob/165a97bdcab7559e0c4393a571b9ff2aed4ba8a7/src/GitHub.App/Services/PullRequestService.cs
  */
 
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import Logger from '../common/logger';
+import { formatError } from '../common/utils';
 import { Protocol } from '../common/protocol';
 import { Remote, parseRepositoryRemotes } from '../common/remote';
 import { Repository, Branch } from '../api/api';
+import { GitExtension } from '../typings/git';
 import { PullRequestModel } from './pullRequestModel';
 
 const PullRequestRemoteMetadataKey = 'github-pr-remote';
 const PullRequestMetadataKey = 'github-pr-owner-number';
 const PullRequestBranchRegex = /branch\.(.+)\.github-pr-owner-number/;
+const PullRequestStashMetadataKey = 'github-pr-stash';
+const PullRequestStashRegex = /^branch\.(.+)\.github-pr-stash$/;
 
 export interface PullRequestMetadata {
 	owner: string;
@@ -23,6 +30,20 @@ export interface PullRequestMetadata {
 	prNumber: number;
 }
 
+/**
+ * Changes of a branch that were stashed to check out a pull request, identified by the commit of the stash.
+ */
+export interface PullRequestStash {
+	branchName: string;
+	commit: string;
+	metadata: PullRequestMetadata;
+}
+
+export interface Worktree {
+	path: string;
+	branchName?: string;
+}
+
 export class PullRequestGitHelper {
 	static ID = 'PullRequestGitHelper';
 	static async checkoutFromFork(repository: Repository, pullRequest: PullRequestModel) {
@@ -41,6 +62,51 @@ export class PullRequestGitHelper {
 		await repository.setBranchUpstream(localBranchName, `refs/remotes/${remoteName}/${pullRequest.head.ref}`);
 		await repository.pull(true);
 		PullRequestGitHelper.associateBranchWithPullRequest(repository, pullRequest, localBranchName);
+		if (pullRequest.maintainerCanModify) {
+			await PullRequestGitHelper.configurePushToFork(repository, pullRequest, remoteName, localBranchName);
+		}
+	}
+
+	/**
+	 * Set up the remote created for a fork so that the local branch of a pull request, whose name differs from the
+	 * branch of the fork, is pushed to it. The push url uses the protocol of the base remote, which is the one the
+	 * user authenticates with.
+	 */
+	static async configurePushToFork(repository: Repository, pullRequest: PullRequestModel, remoteName: string, localBranchName: string): Promise<void> {
+		const pushUrl = new Protocol(pullRequest.head.repositoryCloneUrl.toString()!);
+		pushUrl.update({
+			type: pullRequest.remote.gitProtocol.type
+		});
+		await repository.setConfig(`remote.${remoteName}.pushurl`, pushUrl.toString()!);
+
+		const refspec = `refs/heads/${localBranchName}:refs/heads/${pullRequest.head.ref}`;
+		const configs = await repository.getConfigs();
+		if (!configs.some(({ key, value }) => key === `remote.${remoteName}.push` && value === refspec)) {
+			Logger.appendLine(`Push ${localBranchName} to ${remoteName}/${pullRequest.head.ref}`, PullRequestGitHelper.ID);
+			await PullRequestGitHelper.exec(repository, ['config', '--local', '--add', `remote.${remoteName}.push`, refspec]);
+		}
+	}
+
+	/**
+	 * Push the local branch of a pull request to its head branch. Branches checked out from a fork by the extension
+	 * are pushed to the remote created for the fork, other branches to their upstream.
+	 */
+	static async pushToPullRequest(repository: Repository, pullRequest: PullRequestModel, localBranchName: string): Promise<void> {
+		let remoteName: string | undefined;
+		try {
+			remoteName = await repository.getConfig(`branch.${localBranchName}.remote`);
+		} catch (_) {
+			remoteName = undefined;
+		}
+
+		if (!remoteName || !await PullRequestGitHelper.isRemoteCreatedForPullRequest(repository, remoteName)) {
+			await repository.push();
+			return;
+		}
+
+		await PullRequestGitHelper.configurePushToFork(repository, pullRequest, remoteName, localBranchName);
+		Logger.appendLine(`Push ${localBranchName} to ${remoteName}/${pullRequest.head.ref}`, PullRequestGitHelper.ID);
+		await PullRequestGitHelper.exec(repository, ['push', remoteName, `refs/heads/${localBranchName}:refs/heads/${pullRequest.head.ref}`]);
 	}
 
 	static async fetchAndCheckout(repository: Repository, remotes: Remote[], pullRequest: PullRequestModel): Promise<void> {
@@ -111,10 +177,162 @@ export class PullRequestGitHelper {
 		}
 	}
 
+	/**
+	 * Check out the branch of a pull request in a worktree of its own, leaving the main working tree alone. The
+	 * branch is created the way `fetchAndCheckout` does, and associated with the pull request so that review mode
+	 * starts in the worktree. Returns the path of the worktree, which is reused if the branch already has one.
+	 */
+	static async checkoutInWorktree(repository: Repository, remotes: Remote[], pullRequest: PullRequestModel, worktreePath: string): Promise<string> {
+		const key = PullRequestGitHelper.buildPullRequestMetadata(pullRequest);
+		const existingBranch = (await PullRequestGitHelper.getPullRequestBranches(repository))
+			.find(({ metadata }) => PullRequestGitHelper.buildMetadataKey(metadata) === key);
+
+		let branchName: string;
+		if (existingBranch) {
+			branchName = existingBranch.branchName;
+		} else {
+			branchName = await PullRequestGitHelper.fetchBranchForWorktree(repository, remotes, pullRequest);
+			await PullRequestGitHelper.associateBranchWithPullRequest(repository, pullRequest, branchName);
+		}
+
+		const worktree = (await PullRequestGitHelper.getWorktrees(repository)).find(w => w.branchName === branchName);
+		if (worktree) {
+			return worktree.path;
+		}
+
+		Logger.appendLine(`Add worktree ${worktreePath} for ${branchName}`, PullRequestGitHelper.ID);
+		await PullRequestGitHelper.exec(repository, ['worktree', 'add', worktreePath, branchName]);
+		return worktreePath;
+	}
+
+	private static async fetchBranchForWorktree(repository: Repository, remotes: Remote[], pullRequest: PullRequestModel): Promise<string> {
+		const remote = PullRequestGitHelper.getHeadRemoteForPullRequest(remotes, pullRequest);
+		if (!remote) {
+			const localBranchName = await PullRequestGitHelper.calculateUniqueBranchNameForPR(repository, pullRequest);
+			const remoteName = await PullRequestGitHelper.createRemote(repository, pullRequest.remote, pullRequest.head.repositoryCloneUrl);
+			await repository.fetch(remoteName, `${pullRequest.head.ref}:${localBranchName}`, 1);
+			await repository.setBranchUpstream(localBranchName, `refs/remotes/${remoteName}/${pullRequest.head.ref}`);
+			return localBranchName;
+		}
+
+		const branchName = pullRequest.head.ref;
+		const trackedBranchName = `refs/remotes/${remote.remoteName}/${branchName}`;
+		try {
+			await repository.getBranch(branchName);
+		} catch (err) {
+			Logger.appendLine(`Fetch tracked branch ${trackedBranchName}`, PullRequestGitHelper.ID);
+			await repository.fetch(remote.remoteName, branchName, 1);
+			const trackedBranch = await repository.getBranch(trackedBranchName);
+			await repository.createBranch(branchName, false, trackedBranch.commit);
+			await repository.setBranchUpstream(branchName, trackedBranchName);
+		}
+
+		return branchName;
+	}
+
+	/**
+	 * The worktrees of the repository, the first one being the main working tree.
+	 */
+	static async getWorktrees(repository: Repository): Promise<Worktree[]> {
+		const output = await PullRequestGitHelper.exec(repository, ['worktree', 'list', '--porcelain']);
+		return PullRequestGitHelper.parseWorktrees(output);
+	}
+
+	/**
+	 * Parse the output of `git worktree list --porcelain`.
+	 */
+	static parseWorktrees(output: string): Worktree[] {
+		return output.split(/\r?\n\r?\n/).filter(block => block.trim()).map(block => {
+			const lines = block.split(/\r?\n/);
+			const worktreeLine = lines.find(line => line.startsWith('worktree '));
+			const branchLine = lines.find(line => line.startsWith('branch refs/heads/'));
+			return {
+				path: worktreeLine ? worktreeLine.substr('worktree '.length) : '',
+				branchName: branchLine ? branchLine.substr('branch refs/heads/'.length) : undefined
+			};
+		});
+	}
+
+	/**
+	 * Delete a branch, removing the worktree it is checked out in when git refuses to delete it because of it. Git
+	 * refuses to remove worktrees with changes.
+	 */
+	static async deleteBranch(repository: Repository, branchName: string, force?: boolean): Promise<void> {
+		try {
+			await repository.deleteBranch(branchName, force);
+		} catch (e) {
+			const message = `${e.stderr || ''}${e.message || ''}`;
+			if (!/checked out at|used by worktree at/.test(message)) {
+				throw e;
+			}
+
+			let worktree: Worktree | undefined;
+			try {
+				worktree = (await PullRequestGitHelper.getWorktrees(repository)).slice(1).find(w => w.branchName === branchName);
+			} catch (worktreesError) {
+				Logger.appendLine(`Listing worktrees failed: ${formatError(worktreesError)}`, PullRequestGitHelper.ID);
+			}
+
+			if (!worktree) {
+				throw e;
+			}
+
+			Logger.appendLine(`Remove worktree ${worktree.path} of ${branchName}`, PullRequestGitHelper.ID);
+			await PullRequestGitHelper.exec(repository, ['worktree', 'remove', worktree.path]);
+			await repository.deleteBranch(branchName, force);
+		}
+	}
+
+	/**
+	 * Count the commits of `ref` that are not in `base`, and the other way around.
+	 */
+	static async getAheadBehind(repository: Repository, ref: string, base: string): Promise<{ ahead: number, behind: number }> {
+		const output = await PullRequestGitHelper.exec(repository, ['rev-list', '--left-right', '--count', `${ref}...${base}`]);
+		return PullRequestGitHelper.parseAheadBehind(output);
+	}
+
+	/**
+	 * Parse the output of `git rev-list --left-right --count`.
+	 */
+	static parseAheadBehind(output: string): { ahead: number, behind: number } {
+		const [ahead, behind] = output.trim().split(/\s+/).map(Number);
+		return { ahead, behind };
+	}
+
+	/**
+	 * The names of the files that differ between two commits.
+	 */
+	static async getChangedFileNames(repository: Repository, ref1: string, ref2: string): Promise<string[]> {
+		const output = await PullRequestGitHelper.exec(repository, ['diff', '--name-only', '-z', ref1, ref2]);
+		return output.split('\0').filter(fileName => !!fileName);
+	}
+
+	/**
+	 * Merge a ref into the current branch. When the merge has conflicts, git leaves them in the working tree and fails.
+	 */
+	static async merge(repository: Repository, ref: string): Promise<void> {
+		Logger.appendLine(`Merge ${ref}`, PullRequestGitHelper.ID);
+		await PullRequestGitHelper.exec(repository, ['merge', '--no-edit', ref]);
+	}
+
+	/**
+	 * Run git for commands the git extension has no API for.
+	 */
+	private static async exec(repository: Repository, args: string[]): Promise<string> {
+		const gitExtension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+		const gitPath = gitExtension && gitExtension.isActive ? gitExtension.exports.getAPI(1).git.path : 'git';
+		const { stdout } = await promisify(execFile)(gitPath, args, { cwd: repository.rootUri.fsPath });
+		return stdout;
+	}
+
 	static buildPullRequestMetadata(pullRequest: PullRequestModel) {
 		return pullRequest.base.repositoryCloneUrl.owner + '#' + pullRequest.base.repositoryCloneUrl.repositoryName + '#' + pullRequest.prNumber;
 	}
 
+	private static buildMetadataKey(metadata: PullRequestMetadata) {
+		return metadata.owner + '#' + metadata.repositoryName + '#' + metadata.prNumber;
+	}
+
 	static parsePullRequestMetadata(value: string): PullRequestMetadata | undefined {
 		if (value) {
 			let matches = /(.*)#(.*)#(.*)/g.exec(value);
@@ -193,6 +411,115 @@ export class PullRequestGitHelper {
 		}
 	}
 
+	/**
+	 * Get the local branches that were checked out for a pull request, along with the pull request they are associated with.
+	 */
+	static async getPullRequestBranches(repository: Repository): Promise<{ branchName: string, metadata: PullRequestMetadata }[]> {
+		const configs = await repository.getConfigs();
+		const branches: { branchName: string, metadata: PullRequestMetadata }[] = [];
+		for (const { key, value } of configs) {
+			const matches = PullRequestBranchRegex.exec(key);
+			const metadata = matches ? PullRequestGitHelper.parsePullRequestMetadata(value) : undefined;
+			if (matches && metadata) {
+				branches.push({ branchName: matches[1], metadata });
+			}
+		}
+
+		return branches;
+	}
+
+	/**
+	 * Stash the changes of the current branch, untracked files included, before checking out a pull request. The stash
+	 * is recorded in the config of the branch, so that it can be popped when coming back to it. Changes made on a
+	 * detached HEAD are not stashed, as there is no branch to record the stash on.
+	 */
+	static async stashForPullRequest(repository: Repository, pullRequest: PullRequestModel): Promise<void> {
+		const branchName = repository.state.HEAD && repository.state.HEAD.name;
+		if (!branchName) {
+			throw new Error('HEAD is detached, stash or commit your changes yourself.');
+		}
+
+		const message = `Checkout of pull request #${pullRequest.prNumber} (${pullRequest.head.ref}) from ${branchName}`;
+		const previousStash = await PullRequestGitHelper.getLatestStashCommit(repository);
+		Logger.appendLine(`Stash changes: ${message}`, PullRequestGitHelper.ID);
+		await PullRequestGitHelper.exec(repository, ['stash', 'push', '--include-untracked', '-m', message]);
+
+		const stash = await PullRequestGitHelper.getLatestStashCommit(repository);
+		if (!stash || stash === previousStash) {
+			throw new Error('There are no local changes to stash.');
+		}
+
+		await repository.setConfig(`branch.${branchName}.${PullRequestStashMetadataKey}`, `${PullRequestGitHelper.buildPullRequestMetadata(pullRequest)}#${stash}`);
+	}
+
+	/**
+	 * Get the stashes made to check out a pull request that were not popped yet.
+	 */
+	static async getPullRequestStashes(repository: Repository): Promise<PullRequestStash[]> {
+		const configs = await repository.getConfigs();
+		const stashes: PullRequestStash[] = [];
+		for (const { key, value } of configs) {
+			const matches = PullRequestStashRegex.exec(key);
+			const valueMatches = matches ? /^(.*)#([0-9a-f]+)$/.exec(value) : null;
+			const metadata = valueMatches ? PullRequestGitHelper.parsePullRequestMetadata(valueMatches[1]) : undefined;
+			if (matches && valueMatches && metadata) {
+				stashes.push({ branchName: matches[1], commit: valueMatches[2], metadata });
+			}
+		}
+
+		return stashes;
+	}
+
+	/**
+	 * Pop a stash made to check out a pull request, even if other stashes were pushed since, and forget about it.
+	 */
+	static async popPullRequestStash(repository: Repository, stash: PullRequestStash): Promise<void> {
+		const stashCommits = (await PullRequestGitHelper.exec(repository, ['stash', 'list', '--format=%H'])).split(/\r?\n/);
+		const index = stashCommits.indexOf(stash.commit);
+		if (index < 0) {
+			await PullRequestGitHelper.forgetPullRequestStash(repository, stash);
+			throw new Error(`The stash of branch ${stash.branchName} does not exist anymore.`);
+		}
+
+		Logger.appendLine(`Pop stash@{${index}} of ${stash.branchName}`, PullRequestGitHelper.ID);
+		await PullRequestGitHelper.exec(repository, ['stash', 'pop', `stash@{${index}}`]);
+		await PullRequestGitHelper.forgetPullRequestStash(repository, stash);
+	}
+
+	static async forgetPullRequestStash(repository: Repository, stash: PullRequestStash): Promise<void> {
+		await PullRequestGitHelper.exec(repository, ['config', '--local', '--unset', `branch.${stash.branchName}.${PullRequestStashMetadataKey}`]);
+	}
+
+	private static async getLatestStashCommit(repository: Repository): Promise<string | undefined> {
+		const stashCommits = await PullRequestGitHelper.exec(repository, ['stash', 'list', '-n', '1', '--format=%H']);
+		return stashCommits.trim() || undefined;
+	}
+
+	/**
+	 * Remove the remotes created for pull requests that no local branch tracks any more.
+	 */
+	static async removeUnusedPullRequestRemotes(repository: Repository): Promise<string[]> {
+		const configs = await repository.getConfigs();
+		const usedRemotes = configs
+			.filter(({ key }) => /^branch\..*\.remote$/.test(key))
+			.map(({ value }) => value);
+
+		const unusedRemotes: string[] = [];
+		for (const { key, value } of configs) {
+			const matches = /^remote\.(.*)\.github-pr-remote$/.exec(key);
+			if (matches && value === 'true' && usedRemotes.indexOf(matches[1]) < 0) {
+				unusedRemotes.push(matches[1]);
+			}
+		}
+
+		for (const remoteName of unusedRemotes) {
+			Logger.appendLine(`remove unused remote ${remoteName}.`, PullRequestGitHelper.ID);
+			await repository.removeRemote(remoteName);
+		}
+
+		return unusedRemotes;
+	}
+
 	static async calculateUniqueBranchNameForPR(repository: Repository, pullRequest: PullRequestModel): Promise<string> {
 		let branchName = `pr/${pullRequest.author.login}/${pullRequest.prNumber}`;
 		let result = branchName;
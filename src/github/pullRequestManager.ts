@@ -5,30 +5,34 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as os from 'os';
+import { readFile, writeFile, unlink } from 'fs';
+import { promisify } from 'util';
 import Octokit = require('@octokit/rest');
 import { CredentialStore } from './credentials';
-import { Comment } from '../common/comment';
+import { Comment, MultiLineCommentRange } from '../common/comment';
 import { Remote, parseRepositoryRemotes } from '../common/remote';
 import { TimelineEvent, EventType, ReviewEvent as CommonReviewEvent, isReviewEvent, isCommitEvent } from '../common/timelineEvent';
 import { GitHubRepository } from './githubRepository';
-import { IPullRequestsPagingOptions, PRType, ReviewEvent, ITelemetry, IPullRequestEditData, PullRequest, IRawFileChange, IAccount, ILabel, MergeMethodsAvailability } from './interface';
-import { PullRequestGitHelper } from './pullRequestGitHelper';
+import { IPullRequestsPagingOptions, IPageInformation, PRType, ReviewEvent, ITelemetry, IPullRequestEditData, PullRequest, IRawFileChange, IAccount, ILabel, MergeMethodsAvailability, ChecksState, ReviewDecision } from './interface';
+import { PullRequestGitHelper, PullRequestStash } from './pullRequestGitHelper';
 import { PullRequestModel } from './pullRequestModel';
+import { IPinnedPullRequest } from './pins';
+import * as OfflineCache from './offlineCache';
+import { getPullRequestKey } from './readState';
+import { IClientQualifier, IParsedQuery, matchesQualifier, parseQuery, replaceQueryVariables } from './queryFilters';
 import { GitHubManager } from '../authentication/githubServer';
-import { formatError, uniqBy, Predicate } from '../common/utils';
+import { formatError, uniqBy, Predicate, isNetworkError } from '../common/utils';
 import { Repository, RefType, UpstreamRef } from '../api/api';
 import Logger from '../common/logger';
 import { EXTENSION_ID } from '../constants';
 import { fromPRUri } from '../common/uri';
-import { convertRESTPullRequestToRawPullRequest, convertPullRequestsGetCommentsResponseItemToComment, convertIssuesCreateCommentResponseToComment, parseGraphQLTimelineEvents, convertRESTTimelineEvents, getRelatedUsersFromTimelineEvents, parseGraphQLComment, getReactionGroup, convertRESTUserToAccount, convertRESTReviewEvent, parseGraphQLReviewEvent } from './utils';
-import { PendingReviewIdResponse, TimelineEventsResponse, PullRequestCommentsResponse, AddCommentResponse, SubmitReviewResponse, DeleteReviewResponse, EditCommentResponse, DeleteReactionResponse, AddReactionResponse, MarkPullRequestReadyForReviewResponse } from './graphql';
+import { getLastDiffLine, mapOldLineToNew } from '../common/diffPositionMapping';
+import { getSuggestedLines, createSuggestionPatch } from '../common/suggestion';
+import { convertRESTPullRequestToRawPullRequest, convertPullRequestsGetCommentsResponseItemToComment, convertIssuesCreateCommentResponseToComment, parseGraphQLTimelineEvents, convertRESTTimelineEvents, getRelatedUsersFromTimelineEvents, parseGraphQLComment, getReactionGroup, convertRESTUserToAccount, convertRESTReviewEvent, parseGraphQLReviewEvent, sortPullRequestsByUpdatedAt } from './utils';
+import { PendingReviewIdResponse, PendingReviewCommentsResponse, TimelineEventsResponse, PullRequestCommentsResponse, AddCommentResponse, AddReviewThreadResponse, SubmitReviewResponse, DeleteReviewResponse, EditCommentResponse, DeleteReactionResponse, AddReactionResponse, MarkPullRequestReadyForReviewResponse, ReviewThread, ReviewThreadsResponse, ResolveReviewThreadResponse, UnresolveReviewThreadResponse } from './graphql';
 const queries = require('./queries.gql');
 
-interface PageInformation {
-	pullRequestPage: number;
-	hasMorePages: boolean | null;
-}
-
 interface RestErrorResult {
 	errors: RestError[];
 	message: string;
@@ -43,7 +47,14 @@ interface RestError {
 interface PullRequestsResponseResult {
 	pullRequests: PullRequestModel[];
 	hasMorePages: boolean;
-	hasUnsearchedRepositories: boolean;
+}
+
+interface ICachedPullRequest {
+	remoteUrl: string;
+	item: PullRequest;
+	localBranchName?: string;
+	checksState?: ChecksState;
+	reviewDecision?: ReviewDecision;
 }
 
 export class NoGitHubReposError extends Error {
@@ -82,6 +93,8 @@ export class BadUpstreamError extends Error {
 
 export const SETTINGS_NAMESPACE = 'githubPullRequests';
 export const REMOTES_SETTING = 'remotes';
+export const WORKTREE_DIRECTORY_SETTING = 'worktreeDirectory';
+export const OPEN_WORKTREE_IN_SETTING = 'openWorktreeIn';
 
 interface NewCommentPosition {
 	path: string;
@@ -103,7 +116,6 @@ export class PullRequestManager implements vscode.Disposable {
 	private _fetchMentionableUsersPromise?: Promise<{ [key: string]: IAccount[] }>;
 	private _gitBlameCache: { [key: string]: string } = {};
 	private _githubManager: GitHubManager;
-	private _repositoryPageInformation: Map<string, PageInformation> = new Map<string, PageInformation>();
 
 	private _onDidChangeActivePullRequest = new vscode.EventEmitter<void>();
 	readonly onDidChangeActivePullRequest: vscode.Event<void> = this._onDidChangeActivePullRequest.event;
@@ -405,16 +417,6 @@ export class PullRequestManager implements vscode.Disposable {
 			this._githubRepositories = repositories;
 			oldRepositories.forEach(repo => repo.dispose());
 
-			for (let repository of this._githubRepositories) {
-				const remoteId = repository.remote.url.toString();
-				if (!this._repositoryPageInformation.get(remoteId)) {
-					this._repositoryPageInformation.set(remoteId, {
-						pullRequestPage: 1,
-						hasMorePages: null
-					});
-				}
-			}
-
 			this.getMentionableUsers();
 			return Promise.resolve();
 		});
@@ -511,9 +513,28 @@ export class PullRequestManager implements vscode.Disposable {
 			return Promise.resolve(null);
 		});
 
-		return Promise.all(promises).then(values => {
-			return values.filter(value => value !== null) as PullRequestModel[];
-		});
+		const pullRequests = (await Promise.all(promises)).filter(value => value !== null) as PullRequestModel[];
+		await Promise.all(githubRepositories.map(githubRepository =>
+			githubRepository.getPullRequestStatuses(pullRequests.filter(pullRequest => pullRequest.githubRepository === githubRepository))
+		));
+
+		return pullRequests;
+	}
+
+	/**
+	 * Fetch the current state of the pinned pull requests, whether they are still open or not. Pins for
+	 * repositories that are no longer among the GitHub remotes are skipped.
+	 */
+	async getPinnedPullRequests(pins: IPinnedPullRequest[]): Promise<PullRequestModel[]> {
+		const pullRequests = (await Promise.all(pins.map(pin =>
+			this.resolvePullRequest(pin.owner, pin.repositoryName, pin.prNumber)
+		))).filter(pullRequest => !!pullRequest) as PullRequestModel[];
+
+		await Promise.all(this._githubRepositories.map(githubRepository =>
+			githubRepository.getPullRequestStatuses(pullRequests.filter(pullRequest => pullRequest.githubRepository === githubRepository))
+		));
+
+		return sortPullRequestsByUpdatedAt(pullRequests);
 	}
 
 	async getLabels(pullRequest: PullRequestModel): Promise<ILabel[]> {
@@ -548,7 +569,7 @@ export class PullRequestManager implements vscode.Disposable {
 		if (!pullRequest.localBranchName) {
 			return;
 		}
-		await this.repository.deleteBranch(pullRequest.localBranchName, force);
+		await PullRequestGitHelper.deleteBranch(this.repository, pullRequest.localBranchName, force);
 
 		let remoteName: string | undefined = undefined;
 		try {
@@ -573,58 +594,252 @@ export class PullRequestManager implements vscode.Disposable {
 		this._telemetry.on('branch.delete');
 	}
 
-	async getPullRequests(type: PRType, options: IPullRequestsPagingOptions = { fetchNextPage: false }, query?: string): Promise<PullRequestsResponseResult> {
+	/**
+	 * Get the local branches checked out for pull requests, with the current state of their pull request
+	 * if it could be found.
+	 */
+	async getPullRequestBranches(): Promise<{ branchName: string, pullRequest?: PullRequestModel }[]> {
+		const branches = await PullRequestGitHelper.getPullRequestBranches(this.repository);
+		return Promise.all(branches.map(async ({ branchName, metadata }) => {
+			let pullRequest: PullRequestModel | undefined;
+			try {
+				pullRequest = await this.resolvePullRequest(metadata.owner, metadata.repositoryName, metadata.prNumber);
+			} catch (e) {
+				Logger.appendLine(`Resolving pull request for branch ${branchName} failed: ${formatError(e)}`);
+			}
+
+			return { branchName, pullRequest };
+		}));
+	}
+
+	async deleteLocalBranch(branchName: string, force?: boolean): Promise<void> {
+		await PullRequestGitHelper.deleteBranch(this.repository, branchName, force);
+		this._telemetry.on('branch.delete');
+	}
+
+	async removeUnusedPullRequestRemotes(): Promise<string[]> {
+		return PullRequestGitHelper.removeUnusedPullRequestRemotes(this.repository);
+	}
+
+	/**
+	 * Run a request and remember its result, so that the last result can be returned instead when GitHub can't
+	 * be reached. Other errors, and network errors without a cached result, are rethrown.
+	 */
+	private async withOfflineCache<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+		try {
+			const value = await fetch();
+			OfflineCache.set(key, value).catch(e => Logger.appendLine(`Caching ${key} failed: ${formatError(e)}`));
+			return value;
+		} catch (e) {
+			const cached = isNetworkError(e) ? OfflineCache.get<T>(key) : undefined;
+			if (!cached) {
+				throw e;
+			}
+
+			Logger.appendLine(`GitHub can't be reached, using ${key} cached at ${new Date(cached.cachedAt).toISOString()}`, PullRequestManager.ID);
+			return cached.value;
+		}
+	}
+
+	private getCategoryCacheKey(type: PRType, query?: string): string {
+		return `category:${this.repository.rootUri.toString()}:${PRType[type]}:${query || ''}`;
+	}
+
+	/**
+	 * Remember the pull requests shown in a category so that they can still be shown while GitHub can't be reached.
+	 */
+	cachePullRequests(type: PRType, query: string | undefined, pullRequests: PullRequestModel[]): void {
+		const key = this.getCategoryCacheKey(type, query);
+		const value: ICachedPullRequest[] = pullRequests.map(pullRequest => ({
+			remoteUrl: pullRequest.githubRepository.remote.url,
+			item: pullRequest.prItem,
+			localBranchName: pullRequest.localBranchName,
+			checksState: pullRequest.checksState,
+			reviewDecision: pullRequest.reviewDecision
+		}));
+
+		// Writing the global state is slow, so the list is only written again when it changed
+		const cached = OfflineCache.get<ICachedPullRequest[]>(key);
+		if (cached && JSON.stringify(cached.value) === JSON.stringify(value)) {
+			return;
+		}
+
+		OfflineCache.set(key, value).catch(e => Logger.appendLine(`Caching pull requests failed: ${formatError(e)}`));
+	}
+
+	getCachedPullRequests(type: PRType, query?: string): { pullRequests: PullRequestModel[], cachedAt: number } | undefined {
+		const cached = OfflineCache.get<ICachedPullRequest[]>(this.getCategoryCacheKey(type, query));
+		if (!cached) {
+			return undefined;
+		}
+
+		const pullRequests: PullRequestModel[] = [];
+		for (const { remoteUrl, item, localBranchName, checksState, reviewDecision } of cached.value) {
+			const githubRepository = this._githubRepositories.find(repo => repo.remote.url === remoteUrl);
+			if (githubRepository) {
+				const pullRequest = new PullRequestModel(githubRepository, githubRepository.remote, item);
+				pullRequest.localBranchName = localBranchName;
+				pullRequest.checksState = checksState;
+				pullRequest.reviewDecision = reviewDecision;
+				pullRequests.push(pullRequest);
+			}
+		}
+
+		return { pullRequests, cachedAt: cached.cachedAt };
+	}
+
+	async getPullRequests(type: PRType, options: IPullRequestsPagingOptions = { fetchNextPage: false, repositoryPageInformation: new Map() }, query?: string): Promise<PullRequestsResponseResult> {
 		if (!this._githubRepositories || !this._githubRepositories.length) {
 			return {
 				pullRequests: [],
-				hasMorePages: false,
-				hasUnsearchedRepositories: false
+				hasMorePages: false
 			};
 		}
 
-		if (!options.fetchNextPage) {
-			for (let repository of this._githubRepositories) {
-				this._repositoryPageInformation.set(repository.remote.url.toString(), {
+		const { repositoryPageInformation } = options;
+		for (let repository of this._githubRepositories) {
+			const remoteId = repository.remote.url.toString();
+			if (!options.fetchNextPage || !repositoryPageInformation.has(remoteId)) {
+				repositoryPageInformation.set(remoteId, {
 					pullRequestPage: 1,
 					hasMorePages: null
 				});
 			}
 		}
 
+		const { searchQuery, qualifiers } = this.parseCategoryQuery(query || '');
+		let pullRequests = await this.fetchNextPullRequestsPage(type, searchQuery, qualifiers, repositoryPageInformation);
+		// Client side qualifiers can filter out a whole page, keep fetching until some pull request matches
+		while (!pullRequests.length && qualifiers.length && this.mayHaveMorePages(repositoryPageInformation)) {
+			pullRequests = await this.fetchNextPullRequestsPage(type, searchQuery, qualifiers, repositoryPageInformation);
+		}
+
+		return {
+			pullRequests: sortPullRequestsByUpdatedAt(pullRequests),
+			hasMorePages: this.mayHaveMorePages(repositoryPageInformation)
+		};
+	}
+
+	private async fetchNextPullRequestsPage(type: PRType, searchQuery: string, qualifiers: IClientQualifier[], repositoryPageInformation: Map<string, IPageInformation>): Promise<PullRequestModel[]> {
 		const githubRepositories = this._githubRepositories.filter(repo => {
-			const info = this._repositoryPageInformation.get(repo.remote.url.toString());
+			const info = repositoryPageInformation.get(repo.remote.url.toString());
 			return info && info.hasMorePages !== false;
 		});
 
-		for (let i = 0; i < githubRepositories.length; i++) {
-			const githubRepository = githubRepositories[i];
-			const pageInformation = this._repositoryPageInformation.get(githubRepository.remote.url.toString())!;
-			const pullRequestData = type === PRType.All
+		const pullRequestData = await Promise.all(githubRepositories.map(async githubRepository => {
+			const pageInformation = repositoryPageInformation.get(githubRepository.remote.url.toString())!;
+			const data = type === PRType.All
 				? await githubRepository.getAllPullRequests(pageInformation.pullRequestPage)
-				: await githubRepository.getPullRequestsForCategory(query || '', pageInformation.pullRequestPage);
+				: await githubRepository.getPullRequestsForCategory(searchQuery, pageInformation.pullRequestPage);
 
-			pageInformation.hasMorePages = !!pullRequestData && pullRequestData.hasMorePages;
+			pageInformation.hasMorePages = !!data && data.hasMorePages;
 			pageInformation.pullRequestPage++;
 
-			if (pullRequestData && pullRequestData.pullRequests.length) {
-				return {
-					pullRequests: pullRequestData.pullRequests,
-					hasMorePages: pageInformation.hasMorePages,
-					hasUnsearchedRepositories: i < githubRepositories.length - 1
-				};
+			if (!data) {
+				return [];
 			}
+
+			await githubRepository.getPullRequestStatuses(data.pullRequests);
+			return this.filterPullRequests(data.pullRequests, qualifiers);
+		}));
+
+		return ([] as PullRequestModel[]).concat(...pullRequestData);
+	}
+
+	/**
+	 * Check, without fetching them again, whether the pull requests last fetched for the given type and
+	 * query have changed in any of the GitHub repositories.
+	 */
+	async hasPullRequestsChanged(type: PRType, query?: string): Promise<boolean> {
+		if (type === PRType.LocalPullRequest || type === PRType.Pinned) {
+			return false;
 		}
 
-		return {
-			pullRequests: [],
-			hasMorePages: false,
-			hasUnsearchedRepositories: false
-		};
+		const categoryQuery = type === PRType.All ? undefined : this.parseCategoryQuery(query || '').searchQuery;
+		const results = await Promise.all(this._githubRepositories.map(githubRepository =>
+			githubRepository.hasPullRequestsChanged(categoryQuery)
+		));
+
+		return results.some(changed => changed);
+	}
+
+	/**
+	 * Replace the variables that depend on the local repository in a category query, and split it into the
+	 * GitHub search query and the qualifiers evaluated on the fetched pull requests. `${user}` and `${repo}`
+	 * are replaced per GitHub repository when searching.
+	 */
+	parseCategoryQuery(query: string): IParsedQuery {
+		const branch = this.repository.state.HEAD ? this.repository.state.HEAD.name : undefined;
+		return parseQuery(replaceQueryVariables(query, { branch }));
+	}
+
+	private async filterPullRequests(pullRequests: PullRequestModel[], qualifiers: IClientQualifier[]): Promise<PullRequestModel[]> {
+		if (!qualifiers.length) {
+			return pullRequests;
+		}
+
+		const checkReviews = qualifiers.some(qualifier => qualifier.name === 'reviewed-by-me');
+		const staleReviews = await Promise.all(pullRequests.map(async pullRequest => {
+			if (!checkReviews) {
+				return false;
+			}
+
+			const reviewedCommit = await this.getLatestReviewCommit(pullRequest);
+			return !!reviewedCommit && reviewedCommit !== pullRequest.head.sha;
+		}));
+
+		return pullRequests.filter((pullRequest, i) =>
+			qualifiers.every(qualifier => matchesQualifier(pullRequest, qualifier, staleReviews[i]))
+		);
 	}
 
-	public mayHaveMorePages(): boolean {
+	/**
+	 * Get the commit on which the current user last submitted a review of the pull request, if any.
+	 */
+	async getLatestReviewCommit(pullRequest: PullRequestModel): Promise<string | undefined> {
+		const { remote, octokit } = await pullRequest.githubRepository.ensure();
+		const { currentUser = null } = octokit as any;
+		if (!currentUser) {
+			return undefined;
+		}
+
+		const { data } = await octokit.pulls.listReviews({
+			owner: remote.owner,
+			repo: remote.repositoryName,
+			number: pullRequest.prNumber,
+			per_page: 100
+		});
+
+		const reviews = data.filter(review => review.user.login === currentUser.login && review.state !== 'PENDING');
+		return reviews.length ? reviews[reviews.length - 1].commit_id : undefined;
+	}
+
+	/**
+	 * Get the files of the pull request that changed between the given commit, such as the one the current user
+	 * last reviewed, and the head of the pull request. The head of the pull request is fetched when either commit is
+	 * not available in the local repository, as is usual for pull requests that are not checked out.
+	 */
+	async getFilesChangedSince(pullRequest: PullRequestModel, commit: string, fileNames: string[]): Promise<string[]> {
+		await this.fetchPullRequestHeadIfMissing(pullRequest, [commit, pullRequest.head.sha]);
+		const changedFileNames = await PullRequestGitHelper.getChangedFileNames(this.repository, commit, pullRequest.head.sha);
+		return fileNames.filter(fileName => changedFileNames.indexOf(fileName) !== -1);
+	}
+
+	private async fetchPullRequestHeadIfMissing(pullRequest: PullRequestModel, commits: string[]): Promise<void> {
+		try {
+			await Promise.all(commits.map(commit => this.repository.getCommit(commit)));
+			return;
+		} catch (_) {
+			// Some commit is missing
+		}
+
+		Logger.appendLine(`Fetch the head of pull request #${pullRequest.prNumber}`, PullRequestManager.ID);
+		await this.repository.fetch(pullRequest.remote.remoteName, `refs/pull/${pullRequest.prNumber}/head`);
+	}
+
+	private mayHaveMorePages(repositoryPageInformation: Map<string, IPageInformation>): boolean {
 		return this._githubRepositories.some(repo => {
-			let info = this._repositoryPageInformation.get(repo.remote.url.toString());
+			let info = repositoryPageInformation.get(repo.remote.url.toString());
 			return !!(info && info.hasMorePages !== false);
 		});
 	}
@@ -655,9 +870,9 @@ export class PullRequestManager implements vscode.Disposable {
 
 	async getPullRequestComments(pullRequest: PullRequestModel): Promise<Comment[]> {
 		const { supportsGraphQl } = pullRequest.githubRepository;
-		return supportsGraphQl
+		return this.withOfflineCache(`comments:${getPullRequestKey(pullRequest)}`, () => supportsGraphQl
 			? this.getAllPullRequestReviewComments(pullRequest)
-			: this.getPullRequestReviewComments(pullRequest);
+			: this.getPullRequestReviewComments(pullRequest));
 	}
 
 	private async getAllPullRequestReviewComments(pullRequest: PullRequestModel): Promise<Comment[]> {
@@ -677,13 +892,88 @@ export class PullRequestManager implements vscode.Disposable {
 				.reduce((prev: any, curr: any) => prev.concat(curr), [])
 				.sort((a: Comment, b: Comment) => { return a.isDraft ? 1 : 0; });
 
+			await this.addReviewThreads(pullRequest, comments);
 			return comments;
 		} catch (e) {
+			if (isNetworkError(e)) {
+				throw e;
+			}
+
 			Logger.appendLine(`Failed to get pull request review comments: ${formatError(e)}`);
 			return [];
 		}
 	}
 
+	/**
+	 * Set the review thread each comment is part of, and whether it is resolved. Only the first comments of each
+	 * thread are fetched, the other comments reply to the first one and are part of its thread.
+	 */
+	private async addReviewThreads(pullRequest: PullRequestModel, comments: Comment[]): Promise<void> {
+		const { remote, query } = await pullRequest.githubRepository.ensure();
+		try {
+			const threadsByCommentId = new Map<string, ReviewThread>();
+			let after: string | null = null;
+			let hasNextPage = false;
+			do {
+				const { data }: { data: ReviewThreadsResponse } = await query<ReviewThreadsResponse>({
+					query: queries.ReviewThreads,
+					variables: {
+						owner: remote.owner,
+						name: remote.repositoryName,
+						number: pullRequest.prNumber,
+						after
+					}
+				});
+
+				const { nodes, pageInfo } = data.repository.pullRequest.reviewThreads;
+				nodes.forEach(thread => {
+					thread.comments.nodes.forEach(comment => threadsByCommentId.set(comment.id, thread));
+				});
+				hasNextPage = pageInfo.hasNextPage;
+				after = pageInfo.endCursor;
+			} while (hasNextPage);
+
+			const getThread = (comment: Comment) => {
+				const thread = threadsByCommentId.get(comment.graphNodeId);
+				const repliedTo = !thread && comment.inReplyToId ? comments.find(other => other.id === comment.inReplyToId) : undefined;
+				return thread || (repliedTo && threadsByCommentId.get(repliedTo.graphNodeId));
+			};
+
+			comments.forEach(comment => {
+				const thread = getThread(comment);
+				if (thread) {
+					comment.reviewThreadId = thread.id;
+					comment.isResolved = thread.isResolved;
+				}
+			});
+		} catch (e) {
+			if (isNetworkError(e)) {
+				throw e;
+			}
+
+			Logger.appendLine(`Failed to get pull request review threads: ${formatError(e)}`);
+		}
+	}
+
+	async setReviewThreadResolved(pullRequest: PullRequestModel, reviewThreadId: string, resolved: boolean): Promise<void> {
+		const { mutate } = await pullRequest.githubRepository.ensure();
+		if (resolved) {
+			await mutate<ResolveReviewThreadResponse>({
+				mutation: queries.ResolveReviewThread,
+				variables: {
+					input: { threadId: reviewThreadId }
+				}
+			});
+		} else {
+			await mutate<UnresolveReviewThreadResponse>({
+				mutation: queries.UnresolveReviewThread,
+				variables: {
+					input: { threadId: reviewThreadId }
+				}
+			});
+		}
+	}
+
 	/**
 	 * Returns review comments from the pull request using the REST API, comments on pending reviews are not included.
 	 */
@@ -738,7 +1028,29 @@ export class PullRequestManager implements vscode.Disposable {
 		}
 	}
 
+	/**
+	 * Get the files changed between two commits of a pull request, such as the parent of the first commit of
+	 * a range of its commits and the last one.
+	 */
+	async getCommitRangeChangedFiles(pullRequest: PullRequestModel, baseSha: string, headSha: string): Promise<IRawFileChange[]> {
+		Logger.debug(`Fetch file changes between ${baseSha} and ${headSha} in PR #${pullRequest.prNumber} - enter`, PullRequestManager.ID);
+		const { octokit, remote } = await pullRequest.githubRepository.ensure();
+		const { data } = await octokit.repos.compareCommits({
+			owner: remote.owner,
+			repo: remote.repositoryName,
+			base: baseSha,
+			head: headSha
+		});
+		Logger.debug(`Fetch file changes between ${baseSha} and ${headSha} in PR #${pullRequest.prNumber} - done`, PullRequestManager.ID);
+
+		return data.files;
+	}
+
 	async getTimelineEvents(pullRequest: PullRequestModel): Promise<TimelineEvent[]> {
+		return this.withOfflineCache(`timeline:${getPullRequestKey(pullRequest)}`, () => this.fetchTimelineEvents(pullRequest));
+	}
+
+	private async fetchTimelineEvents(pullRequest: PullRequestModel): Promise<TimelineEvent[]> {
 		Logger.debug(`Fetch timeline events of PR #${pullRequest.prNumber} - enter`, PullRequestManager.ID);
 		const githubRepository = pullRequest.githubRepository;
 		const { octokit, query, remote, supportsGraphQl } = await githubRepository.ensure();
@@ -760,6 +1072,10 @@ export class PullRequestManager implements vscode.Disposable {
 
 				return events;
 			} catch (e) {
+				if (isNetworkError(e)) {
+					throw e;
+				}
+
 				console.log(e);
 				return [];
 			}
@@ -901,6 +1217,26 @@ export class PullRequestManager implements vscode.Disposable {
 		}
 	}
 
+	/**
+	 * The comments of the pending review of the current user, which are published when the review is submitted.
+	 */
+	async getPendingReviewComments(pullRequest: PullRequestModel): Promise<Comment[]> {
+		const pendingReviewId = await this.getPendingReviewId(pullRequest);
+		if (!pendingReviewId) {
+			return [];
+		}
+
+		const { query } = await pullRequest.githubRepository.ensure();
+		const { data } = await query<PendingReviewCommentsResponse>({
+			query: queries.PendingReviewComments,
+			variables: {
+				id: pendingReviewId
+			}
+		});
+
+		return data.node.comments.nodes.map(parseGraphQLComment);
+	}
+
 	async addCommentToPendingReview(pullRequest: PullRequestModel, reviewId: string, body: string, position: NewCommentPosition | ReplyCommentPosition): Promise<Comment> {
 		const { mutate } = await pullRequest.githubRepository.ensure();
 		const { data } = await mutate<AddCommentResponse>({
@@ -918,6 +1254,27 @@ export class PullRequestManager implements vscode.Disposable {
 		return parseGraphQLComment(comment);
 	}
 
+	async addThreadToPendingReview(pullRequest: PullRequestModel, reviewId: string, body: string, commentPath: string, range: MultiLineCommentRange): Promise<Comment> {
+		const { mutate } = await pullRequest.githubRepository.ensure();
+		const { data } = await mutate<AddReviewThreadResponse>({
+			mutation: queries.AddReviewThread,
+			variables: {
+				input: {
+					pullRequestReviewId: reviewId,
+					body,
+					path: commentPath,
+					startLine: range.startLine,
+					startSide: range.side,
+					line: range.line,
+					side: range.side
+				}
+			}
+		});
+
+		const { comments } = data!.addPullRequestReviewThread.thread;
+		return parseGraphQLComment(comments.nodes[0]);
+	}
+
 	async addCommentReaction(pullRequest: PullRequestModel, graphNodeId: string, reaction: vscode.CommentReaction): Promise<AddReactionResponse> {
 		let reactionEmojiToContent = getReactionGroup().reduce((prev, curr) => {
 			prev[curr.label] = curr.title;
@@ -956,16 +1313,39 @@ export class PullRequestManager implements vscode.Disposable {
 		return data!;
 	}
 
-	async createComment(pullRequest: PullRequestModel, body: string, commentPath: string, position: number): Promise<Comment | undefined> {
+	/**
+	 * Create a comment at a position in the pull request's diff, or on several lines when a range is given.
+	 */
+	async createComment(pullRequest: PullRequestModel, body: string, commentPath: string, position: number, range?: MultiLineCommentRange): Promise<Comment | undefined> {
 		const pendingReviewId = await this.getPendingReviewId(pullRequest as PullRequestModel);
 		if (pendingReviewId) {
-			return this.addCommentToPendingReview(pullRequest as PullRequestModel, pendingReviewId, body, { path: commentPath, position });
+			return range
+				? this.addThreadToPendingReview(pullRequest, pendingReviewId, body, commentPath, range)
+				: this.addCommentToPendingReview(pullRequest as PullRequestModel, pendingReviewId, body, { path: commentPath, position });
 		}
 
 		const githubRepository = (pullRequest as PullRequestModel).githubRepository;
 		const { octokit, remote } = await githubRepository.ensure();
 
 		try {
+			if (range) {
+				// The typings and parameter validation of `pulls.createComment` require a position
+				const { data } = await octokit.request('POST /repos/:owner/:repo/pulls/:pull_number/comments', {
+					owner: remote.owner,
+					repo: remote.repositoryName,
+					pull_number: pullRequest.prNumber,
+					body,
+					commit_id: pullRequest.head.sha,
+					path: commentPath,
+					start_line: range.startLine,
+					start_side: range.side,
+					line: range.line,
+					side: range.side
+				});
+
+				return this.addCommentPermissions(convertPullRequestsGetCommentsResponseItemToComment(data, githubRepository), remote);
+			}
+
 			let ret = await octokit.pulls.createComment({
 				owner: remote.owner,
 				repo: remote.repositoryName,
@@ -982,6 +1362,80 @@ export class PullRequestManager implements vscode.Disposable {
 		}
 	}
 
+	/**
+	 * Apply the change suggested in a review comment to the working tree, and optionally commit it with the
+	 * author of the comment as co-author. The pull request must be checked out.
+	 */
+	async applySuggestion(pullRequest: PullRequestModel, comment: Comment, commit: boolean): Promise<void> {
+		if (!pullRequest.equals(this.activePullRequest)) {
+			throw new Error('Check out the pull request to apply its suggestions.');
+		}
+
+		const suggestedLines = getSuggestedLines(comment.body);
+		if (!suggestedLines || !comment.path) {
+			throw new Error('The comment does not suggest a change.');
+		}
+
+		if (commit && this.repository.state.indexChanges.length) {
+			throw new Error('Unstage your changes before committing a suggestion.');
+		}
+
+		let startLine: number;
+		let endLine: number;
+		if (comment.line !== undefined && comment.side === 'RIGHT') {
+			startLine = comment.startLine || comment.line;
+			endLine = comment.line;
+		} else {
+			// The diff hunk of a comment ends with the line it was made on
+			const diffLine = comment.position !== null && comment.position !== undefined ? getLastDiffLine(comment.diffHunk) : undefined;
+			if (!diffLine || diffLine.newLineNumber < 0) {
+				throw new Error('The suggestion is outdated or was made on a removed line.');
+			}
+
+			startLine = endLine = diffLine.newLineNumber;
+		}
+
+		const filePath = path.join(this.repository.rootUri.fsPath, comment.path);
+		if (commit && this.repository.state.workingTreeChanges.some(change => change.uri.fsPath === vscode.Uri.file(filePath).fsPath)) {
+			throw new Error(`Commit or stash your changes to ${comment.path} before committing a suggestion.`);
+		}
+
+		// Local changes to the file may have moved the lines of the suggestion, but must not have changed them
+		const localDiff = await this.repository.diffWith(pullRequest.head.sha, comment.path);
+		const localLines: (number | undefined)[] = [];
+		for (let line = startLine; line <= endLine; line++) {
+			localLines.push(mapOldLineToNew(localDiff, line));
+		}
+		const localStartLine = localLines[0];
+		const localEndLine = localLines[localLines.length - 1];
+		if (localLines.some(line => line === undefined) || localEndLine! - localStartLine! !== endLine - startLine) {
+			throw new Error('The suggested lines were changed locally.');
+		}
+		startLine = localStartLine!;
+		endLine = localEndLine!;
+
+		const content = await promisify(readFile)(filePath, 'utf8');
+		const patch = createSuggestionPatch(comment.path, content, startLine, endLine, suggestedLines);
+
+		// `.git` is a file in worktrees and submodules, the patch is written to the temporary directory instead
+		const patchPath = path.join(os.tmpdir(), `vscode-pull-request-github-${comment.id}.suggestion.diff`);
+		await promisify(writeFile)(patchPath, patch);
+		try {
+			await this.repository.apply(patchPath);
+		} finally {
+			await promisify(unlink)(patchPath);
+		}
+
+		if (commit) {
+			const login = comment.user ? comment.user.login : 'ghost';
+			const name = comment.user && comment.user.name ? comment.user.name : login;
+			// Accounts created since July 2017 are only linked to noreply addresses prefixed with their id
+			const email = comment.user && comment.user.id ? `${comment.user.id}+${login}@users.noreply.github.com` : `${login}@users.noreply.github.com`;
+			await this.repository.add([filePath]);
+			await this.repository.commit(`Apply suggestion from code review\n\nCo-authored-by: ${name} <${email}>`);
+		}
+	}
+
 	async getPullRequestDefaults(): Promise<Octokit.PullsCreateParams> {
 		if (!this.repository.state.HEAD) {
 			throw new DetachedHeadError(this.repository);
@@ -1329,6 +1783,16 @@ export class PullRequestManager implements vscode.Disposable {
 	}
 
 	async getPullRequestFileChangesInfo(pullRequest: PullRequestModel): Promise<IRawFileChange[]> {
+		const { files, mergeBase } = await this.withOfflineCache(`files:${getPullRequestKey(pullRequest)}`, async () => {
+			const changes = await this.fetchPullRequestFileChangesInfo(pullRequest);
+			return { files: changes, mergeBase: pullRequest.mergeBase };
+		});
+
+		pullRequest.mergeBase = mergeBase;
+		return files;
+	}
+
+	private async fetchPullRequestFileChangesInfo(pullRequest: PullRequestModel): Promise<IRawFileChange[]> {
 		Logger.debug(`Fetch file changes, base, head and merge base of PR #${pullRequest.prNumber} - enter`, PullRequestManager.ID);
 		const githubRepository = pullRequest.githubRepository;
 		const { octokit, remote } = await githubRepository.ensure();
@@ -1473,10 +1937,100 @@ export class PullRequestManager implements vscode.Disposable {
 		await PullRequestGitHelper.fetchAndCheckout(this.repository, this._allGitHubRemotes, pullRequest);
 	}
 
+	/**
+	 * The remote tracking branch of the base of a pull request.
+	 */
+	getBaseBranchRef(pullRequest: PullRequestModel): string {
+		return `refs/remotes/${pullRequest.remote.remoteName}/${pullRequest.base.ref}`;
+	}
+
+	async fetchBaseBranch(pullRequest: PullRequestModel): Promise<void> {
+		await this.repository.fetch(pullRequest.remote.remoteName, pullRequest.base.ref);
+	}
+
+	/**
+	 * Count the commits of the current branch that are not in the base of the pull request, as last fetched, and the
+	 * other way around.
+	 */
+	async getAheadBehindBase(pullRequest: PullRequestModel): Promise<{ ahead: number, behind: number }> {
+		return PullRequestGitHelper.getAheadBehind(this.repository, 'HEAD', this.getBaseBranchRef(pullRequest));
+	}
+
+	async mergeBaseBranch(pullRequest: PullRequestModel): Promise<void> {
+		await this.fetchBaseBranch(pullRequest);
+		await PullRequestGitHelper.merge(this.repository, this.getBaseBranchRef(pullRequest));
+		this._telemetry.on('pr.mergeBaseBranch');
+	}
+
+	/**
+	 * Ask GitHub to merge the base branch into the head branch of the pull request. GitHub does it asynchronously.
+	 */
+	async updateBranch(pullRequest: PullRequestModel): Promise<void> {
+		const { octokit, remote } = await pullRequest.githubRepository.ensure();
+		// The typings of this version of Octokit don't know about this endpoint
+		await octokit.request('PUT /repos/:owner/:repo/pulls/:pull_number/update-branch', {
+			owner: remote.owner,
+			repo: remote.repositoryName,
+			pull_number: pullRequest.prNumber,
+			expected_head_sha: pullRequest.head.sha,
+			headers: {
+				accept: 'application/vnd.github.lydian-preview+json'
+			}
+		});
+		this._telemetry.on('pr.updateBranch');
+	}
+
+	/**
+	 * Whether the current user may push to the head branch of the pull request: when it is not from a fork, when they
+	 * authored it, or when its author allows maintainers to edit it.
+	 */
+	canPushToPullRequest(pullRequest: PullRequestModel): boolean {
+		const isFork = !pullRequest.head.repositoryCloneUrl.equals(pullRequest.base.repositoryCloneUrl);
+		return !isFork || this.canEditPullRequest(pullRequest) || !!pullRequest.maintainerCanModify;
+	}
+
+	async pushToPullRequest(pullRequest: PullRequestModel): Promise<void> {
+		const branchName = this.repository.state.HEAD && this.repository.state.HEAD.name;
+		if (!branchName) {
+			throw new Error('There is no branch checked out.');
+		}
+
+		await PullRequestGitHelper.pushToPullRequest(this.repository, pullRequest, branchName);
+		this._telemetry.on('pr.push');
+	}
+
+	async stashForPullRequest(pullRequest: PullRequestModel): Promise<void> {
+		await PullRequestGitHelper.stashForPullRequest(this.repository, pullRequest);
+	}
+
+	async getPullRequestStashes(): Promise<PullRequestStash[]> {
+		return PullRequestGitHelper.getPullRequestStashes(this.repository);
+	}
+
+	async popPullRequestStash(stash: PullRequestStash): Promise<void> {
+		await PullRequestGitHelper.popPullRequestStash(this.repository, stash);
+	}
+
+	async forgetPullRequestStash(stash: PullRequestStash): Promise<void> {
+		await PullRequestGitHelper.forgetPullRequestStash(this.repository, stash);
+	}
+
 	async checkout(branchName: string): Promise<void> {
 		return this.repository.checkout(branchName);
 	}
 
+	/**
+	 * Check out a pull request in a worktree of its own, in the directory set by `githubPullRequests.worktreeDirectory`
+	 * or next to the repository. Returns the uri of the worktree.
+	 */
+	async checkoutInWorktree(pullRequest: PullRequestModel): Promise<vscode.Uri> {
+		const root = this.repository.rootUri.fsPath;
+		const directory = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE).get<string>(WORKTREE_DIRECTORY_SETTING);
+		const worktreePath = path.join(directory ? path.resolve(root, directory) : path.dirname(root), `${path.basename(root)}-pr-${pullRequest.prNumber}`);
+		const checkedOutPath = await PullRequestGitHelper.checkoutInWorktree(this.repository, this._allGitHubRemotes, pullRequest, worktreePath);
+		return vscode.Uri.file(checkedOutPath);
+	}
+
 	private handleError(e: any) {
 		if (e.code && e.code === 422) {
 			let errorObject: RestErrorResult;
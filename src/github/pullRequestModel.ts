@@ -7,7 +7,7 @@ import * as vscode from 'vscode';
 import { GitHubRef } from '../common/githubRef';
 import { Remote } from '../common/remote';
 import { GitHubRepository } from './githubRepository';
-import { IAccount, PullRequest, PullRequestStateEnum } from './interface';
+import { IAccount, PullRequest, PullRequestStateEnum, ChecksState, ReviewDecision } from './interface';
 
 export class PullRequestModel {
 	public id: number;
@@ -23,6 +23,12 @@ export class PullRequestModel {
 	public localBranchName?: string;
 	public mergeBase?: string;
 	public isDraft: boolean;
+	/**
+	 * Whether the author of a pull request from a fork lets maintainers of the base repository push to its branch.
+	 */
+	public maintainerCanModify?: boolean;
+	public checksState?: ChecksState;
+	public reviewDecision?: ReviewDecision;
 
 	public get isOpen(): boolean {
 		return this.state === PullRequestStateEnum.Open;
@@ -98,6 +104,7 @@ export class PullRequestModel {
 		this.html_url = prItem.url;
 		this.author = prItem.user;
 		this.isDraft = prItem.isDraft;
+		this.maintainerCanModify = prItem.maintainerCanModify;
 
 		if (prItem.state.toLowerCase() === 'open') {
 			this.state = PullRequestStateEnum.Open;
@@ -9,7 +9,7 @@ import * as vscode from 'vscode';
 import Octokit = require('@octokit/rest');
 import { PullRequestStateEnum, ReviewEvent, ReviewState, ILabel, IAccount, MergeMethodsAvailability, MergeMethod } from './interface';
 import { onDidUpdatePR } from '../commands';
-import { formatError } from '../common/utils';
+import { formatError, isNetworkError } from '../common/utils';
 import { GitErrorCodes } from '../api/api';
 import { Comment } from '../common/comment';
 import { writeFile, unlink } from 'fs';
@@ -19,6 +19,9 @@ import { TreeNode, Revealable } from '../view/treeNodes/treeNode';
 import { PullRequestManager } from './pullRequestManager';
 import { PullRequestModel } from './pullRequestModel';
 import { TimelineEvent, ReviewEvent as CommonReviewEvent, isReviewEvent } from '../common/timelineEvent';
+import * as ReadState from './readState';
+import * as OfflineCache from './offlineCache';
+import * as CommentDrafts from './commentDrafts';
 
 interface IRequestMessage<T> {
 	req: string;
@@ -26,12 +29,42 @@ interface IRequestMessage<T> {
 	args: T;
 }
 
+const OFFLINE_RETRY_INTERVAL = 30 * 1000;
+
 interface IReplyMessage {
 	seq?: string;
 	err?: any;
 	res?: any;
 }
 
+/**
+ * The pull request sent to the webview, which is also cached to be shown while GitHub can't be reached.
+ */
+interface IPullRequestOverview {
+	number: number;
+	title: string;
+	url: string;
+	createdAt: string;
+	body: string;
+	bodyHTML?: string;
+	labels: ILabel[];
+	author: IAccount;
+	state: PullRequestStateEnum;
+	events: TimelineEvent[];
+	isCurrentlyCheckedOut: boolean;
+	base: string;
+	head: string;
+	repositoryDefaultBranch: string;
+	canEdit: boolean;
+	status: Octokit.ReposGetCombinedStatusForRefResponse;
+	mergeable?: boolean;
+	reviewers: ReviewState[];
+	isDraft: boolean;
+	mergeMethodsAvailability: MergeMethodsAvailability;
+	defaultMergeMethod: MergeMethod;
+	supportsGraphQl: boolean;
+}
+
 export class PullRequestOverviewPanel {
 	public static ID: string = 'PullRequestOverviewPanel';
 	/**
@@ -49,6 +82,7 @@ export class PullRequestOverviewPanel {
 	private _pullRequestManager: PullRequestManager;
 	private _scrollPosition = { x: 0, y: 0 };
 	private _existingReviewers: ReviewState[];
+	private _offlineRetryTimer: NodeJS.Timer | undefined;
 
 	public static async createOrShow(extensionPath: string, pullRequestManager: PullRequestManager, pullRequestModel: PullRequestModel, descriptionNode: DescriptionNode, toTheSide: Boolean = false) {
 		let activeColumn = toTheSide ?
@@ -195,6 +229,12 @@ export class PullRequestOverviewPanel {
 
 		this._panel.webview.html = this.getHtmlForWebview(pullRequestModel.prNumber.toString());
 
+		if (this._offlineRetryTimer) {
+			clearTimeout(this._offlineRetryTimer);
+			this._offlineRetryTimer = undefined;
+		}
+
+		const cacheKey = `overview:${ReadState.getPullRequestKey(pullRequestModel)}`;
 		await Promise.all([
 			this._pullRequestManager.resolvePullRequest(
 				pullRequestModel.remote.owner,
@@ -214,6 +254,8 @@ export class PullRequestOverviewPanel {
 
 			this._pullRequest = pullRequest;
 			this._panel.title = `Pull Request #${pullRequestModel.prNumber.toString()}`;
+			ReadState.markAsSeen([pullRequest]);
+			CommentDrafts.forgetClosedPullRequests([pullRequest]).catch(e => Logger.appendLine(`Forgetting comment drafts failed: ${formatError(e)}`));
 
 			const isCurrentlyCheckedOut = pullRequestModel.equals(this._pullRequestManager.activePullRequest);
 			const canEdit = this._pullRequestManager.canEditPullRequest(this._pullRequest);
@@ -221,40 +263,69 @@ export class PullRequestOverviewPanel {
 			const supportsGraphQl = pullRequestModel.githubRepository.supportsGraphQl;
 			const defaultMergeMethod = getDetaultMergeMethod(mergeMethodsAvailability, preferredMergeMethod);
 
+			const pullrequest: IPullRequestOverview = {
+				number: this._pullRequest.prNumber,
+				title: this._pullRequest.title,
+				url: this._pullRequest.html_url,
+				createdAt: this._pullRequest.createdAt,
+				body: this._pullRequest.body,
+				bodyHTML: this._pullRequest.bodyHTML,
+				labels: this._pullRequest.prItem.labels,
+				author:{
+					login: this._pullRequest.author.login,
+					name: this._pullRequest.author.name,
+					avatarUrl: this._pullRequest.userAvatar,
+					url: this._pullRequest.author.url
+				},
+				state: this._pullRequest.state,
+				events: timelineEvents,
+				isCurrentlyCheckedOut: isCurrentlyCheckedOut,
+				base: this._pullRequest.base && this._pullRequest.base.label || 'UNKNOWN',
+				head: this._pullRequest.head && this._pullRequest.head.label || 'UNKNOWN',
+				repositoryDefaultBranch: defaultBranch,
+				canEdit: canEdit,
+				status: status,
+				mergeable: this._pullRequest.prItem.mergeable,
+				reviewers: this.parseReviewers(requestedReviewers, timelineEvents, this._pullRequest.author),
+				isDraft: this._pullRequest.isDraft,
+				mergeMethodsAvailability,
+				defaultMergeMethod,
+				supportsGraphQl,
+			};
+
+			OfflineCache.set(cacheKey, pullrequest).catch(e => Logger.appendLine(`Caching the overview failed: ${formatError(e)}`));
 			this._postMessage({
 				command: 'pr.initialize',
 				pullrequest: {
-					number: this._pullRequest.prNumber,
-					title: this._pullRequest.title,
-					url: this._pullRequest.html_url,
-					createdAt: this._pullRequest.createdAt,
-					body: this._pullRequest.body,
-					bodyHTML: this._pullRequest.bodyHTML,
-					labels: this._pullRequest.prItem.labels,
-					author:{
-						login: this._pullRequest.author.login,
-						name: this._pullRequest.author.name,
-						avatarUrl: this._pullRequest.userAvatar,
-						url: this._pullRequest.author.url
-					},
-					state: this._pullRequest.state,
-					events: timelineEvents,
-					isCurrentlyCheckedOut: isCurrentlyCheckedOut,
-					base: this._pullRequest.base && this._pullRequest.base.label || 'UNKNOWN',
-					head: this._pullRequest.head && this._pullRequest.head.label || 'UNKNOWN',
-					repositoryDefaultBranch: defaultBranch,
-					canEdit: canEdit,
-					status: status,
-					mergeable: this._pullRequest.prItem.mergeable,
-					reviewers: this.parseReviewers(requestedReviewers, timelineEvents, this._pullRequest.author),
-					isDraft: this._pullRequest.isDraft,
-					mergeMethodsAvailability,
-					defaultMergeMethod,
-					supportsGraphQl,
+					...pullrequest,
+					pendingCommentDrafts: CommentDrafts.getOverviewDrafts(pullRequestModel)
 				}
 			});
 		}).catch(e => {
-			vscode.window.showErrorMessage(formatError(e));
+			const cached = isNetworkError(e) ? OfflineCache.get<IPullRequestOverview>(cacheKey) : undefined;
+			if (!cached) {
+				vscode.window.showErrorMessage(formatError(e));
+				return;
+			}
+
+			// Show the last copy of the pull request read-only, and try again later
+			this._pullRequest = pullRequestModel;
+			this._panel.title = `Pull Request #${pullRequestModel.prNumber.toString()}`;
+			this._postMessage({
+				command: 'pr.initialize',
+				pullrequest: {
+					...cached.value,
+					isCurrentlyCheckedOut: pullRequestModel.equals(this._pullRequestManager.activePullRequest),
+					canEdit: false,
+					pendingCommentDrafts: CommentDrafts.getOverviewDrafts(pullRequestModel),
+					cachedAt: new Date(cached.cachedAt).toISOString()
+				}
+			});
+
+			this._offlineRetryTimer = setTimeout(() => {
+				this._offlineRetryTimer = undefined;
+				this.refreshPanel();
+			}, OFFLINE_RETRY_INTERVAL);
 		});
 	}
 
@@ -329,9 +400,16 @@ export class PullRequestOverviewPanel {
 				return this.addLabels(message);
 			case 'pr.remove-label':
 				return this.removeLabel(message);
+			case 'pr.update-drafts':
+				return this.updateCommentDrafts(message);
 		}
 	}
 
+	private async updateCommentDrafts(message: IRequestMessage<{ [id: string]: string }>): Promise<void> {
+		await CommentDrafts.setOverviewDrafts(this._pullRequest, message.args);
+		this._replyMessage(message, {});
+	}
+
 	private async addReviewers(message: IRequestMessage<void>): Promise<void> {
 		try {
 			const allMentionableUsers = await this._pullRequestManager.getMentionableUsers();
@@ -676,6 +754,11 @@ export class PullRequestOverviewPanel {
 	public dispose() {
 		PullRequestOverviewPanel.currentPanel = undefined;
 
+		if (this._offlineRetryTimer) {
+			clearTimeout(this._offlineRetryTimer);
+			this._offlineRetryTimer = undefined;
+		}
+
 		// Clean up our resources
 		this._panel.dispose();
 
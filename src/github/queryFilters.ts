@@ -0,0 +1,153 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PullRequestModel } from './pullRequestModel';
+
+/**
+ * Qualifiers that GitHub search does not support and that are instead evaluated on the fetched pull requests.
+ */
+export type ClientQualifierName = 'ci' | 'conflicts' | 'size' | 'reviewed-by-me' | 'draft';
+
+export interface IClientQualifier {
+	name: ClientQualifierName;
+	value: string;
+}
+
+export interface IParsedQuery {
+	/**
+	 * The part of the query that is sent to GitHub search.
+	 */
+	searchQuery: string;
+	qualifiers: IClientQualifier[];
+	/**
+	 * Qualifiers that are neither known to GitHub search nor evaluated here, or that have an invalid value.
+	 */
+	unknownQualifiers: string[];
+}
+
+const CLIENT_QUALIFIER_VALUES: { [name in ClientQualifierName]: RegExp } = {
+	ci: /^(failing|passing|pending)$/,
+	conflicts: /^(yes|no)$/,
+	size: /^(>=?|<=?)?\d+$|^\d+\.\.\d+$/,
+	'reviewed-by-me': /^stale$/,
+	draft: /^(true|false)$/
+};
+
+const SEARCH_QUALIFIERS = [
+	'archived', 'assignee', 'author', 'base', 'closed', 'commenter', 'comments', 'created', 'head', 'in', 'interactions',
+	'involves', 'is', 'label', 'language', 'linked', 'mentions', 'merged', 'milestone', 'no', 'org', 'project', 'reactions',
+	'repo', 'review', 'review-requested', 'reviewed-by', 'sort', 'state', 'status', 'team', 'team-review-requested', 'type',
+	'updated', 'user'
+];
+
+const CI_STATES: { [value: string]: string } = {
+	failing: 'failure',
+	passing: 'success',
+	pending: 'pending'
+};
+
+function isClientQualifier(name: string): name is ClientQualifierName {
+	return CLIENT_QUALIFIER_VALUES.hasOwnProperty(name);
+}
+
+/**
+ * Replace `${name}` variables in a query, as well as `${today}` and relative dates such as `${today-7d}`
+ * or `${today-2w}`, which are replaced by a date in the `YYYY-MM-DD` format used by GitHub search.
+ * Variables without a value are left as they are.
+ */
+export function replaceQueryVariables(query: string, variables: { [name: string]: string | undefined }, now: Date = new Date()): string {
+	return query.replace(/\$\{([\w-]+?)(?:([+-])(\d+)([dw]))?\}/g, (match, name: string, sign?: string, amount?: string, unit?: string) => {
+		if (name === 'today') {
+			const days = amount ? parseInt(amount) * (unit === 'w' ? 7 : 1) * (sign === '-' ? -1 : 1) : 0;
+			const date = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+			return date.toISOString().substring(0, 10);
+		}
+
+		const value = sign ? undefined : variables[name];
+		return value !== undefined ? value : match;
+	});
+}
+
+/**
+ * Split a query into the part sent to GitHub search and the qualifiers evaluated client-side.
+ */
+export function parseQuery(query: string): IParsedQuery {
+	const searchTerms: string[] = [];
+	const qualifiers: IClientQualifier[] = [];
+	const unknownQualifiers: string[] = [];
+
+	// Keep quoted terms, such as label:"help wanted", together
+	const terms = query.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+	for (const term of terms) {
+		const match = /^-?([\w-]+):(.+)$/.exec(term);
+		if (!match) {
+			searchTerms.push(term);
+			continue;
+		}
+
+		const name = match[1].toLowerCase();
+		const value = match[2];
+		if (isClientQualifier(name) && !term.startsWith('-')) {
+			if (CLIENT_QUALIFIER_VALUES[name].test(value.toLowerCase())) {
+				qualifiers.push({ name, value: value.toLowerCase() });
+			} else {
+				unknownQualifiers.push(term);
+			}
+		} else {
+			if (SEARCH_QUALIFIERS.indexOf(name) === -1) {
+				unknownQualifiers.push(term);
+			}
+			searchTerms.push(term);
+		}
+	}
+
+	return {
+		searchQuery: searchTerms.join(' '),
+		qualifiers,
+		unknownQualifiers
+	};
+}
+
+function matchesSize(size: number, value: string): boolean {
+	const range = /^(\d+)\.\.(\d+)$/.exec(value);
+	if (range) {
+		return size >= parseInt(range[1]) && size <= parseInt(range[2]);
+	}
+
+	const [, operator, amount] = /^(>=?|<=?)?(\d+)$/.exec(value)!;
+	const limit = parseInt(amount);
+	switch (operator) {
+		case '>': return size > limit;
+		case '>=': return size >= limit;
+		case '<': return size < limit;
+		case '<=': return size <= limit;
+		default: return size === limit;
+	}
+}
+
+/**
+ * Whether a pull request matches a client-side qualifier. `hasStaleReview` tells whether new commits were
+ * pushed since the current user last reviewed the pull request. Pull requests for which the information is
+ * not known, such as the checks state on servers without GraphQL or conflicts GitHub hasn't computed yet, do not
+ * match.
+ */
+export function matchesQualifier(pullRequest: PullRequestModel, qualifier: IClientQualifier, hasStaleReview: boolean = false): boolean {
+	switch (qualifier.name) {
+		case 'ci':
+			return pullRequest.checksState === CI_STATES[qualifier.value];
+		case 'conflicts':
+			const mergeable = pullRequest.prItem.mergeable;
+			return mergeable !== undefined && mergeable === (qualifier.value === 'no');
+		case 'size':
+			const { additions, deletions } = pullRequest.prItem;
+			return additions !== undefined && deletions !== undefined && matchesSize(additions + deletions, qualifier.value);
+		case 'reviewed-by-me':
+			return hasStaleReview;
+		case 'draft':
+			return pullRequest.isDraft === (qualifier.value === 'true');
+		default:
+			return true;
+	}
+}
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { PullRequestModel } from './pullRequestModel';
+import { TimelineEvent, getEventDate } from '../common/timelineEvent';
+
+export type GlobalStateContext = { globalState: vscode.Memento };
+
+const LAST_SEEN_KEY = 'githubPullRequests.lastSeen';
+
+let defaultStorage: vscode.Memento | undefined = undefined;
+
+const didChange = new vscode.EventEmitter<PullRequestModel[]>();
+export const onDidChange = didChange.event;
+
+export function init(ctx: GlobalStateContext) {
+	defaultStorage = ctx.globalState;
+}
+
+export function getPullRequestKey(pullRequest: PullRequestModel): string {
+	return `${pullRequest.remote.owner}/${pullRequest.remote.repositoryName}#${pullRequest.prNumber}`;
+}
+
+/**
+ * Returns the time, in milliseconds since the epoch, at which the pull request was last opened in the
+ * description page or in review mode, or `undefined` if it has never been opened.
+ */
+export function getLastSeen(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): number | undefined {
+	if (!storage) {
+		return undefined;
+	}
+
+	const lastSeen = storage.get<{ [key: string]: number }>(LAST_SEEN_KEY, {});
+	return lastSeen[getPullRequestKey(pullRequest)];
+}
+
+export function isUnread(pullRequest: PullRequestModel, { storage = defaultStorage } = {}): boolean {
+	const lastSeen = getLastSeen(pullRequest, { storage });
+	return lastSeen === undefined || new Date(pullRequest.updatedAt).getTime() > lastSeen;
+}
+
+export function countUnreadEvents(pullRequest: PullRequestModel, events: TimelineEvent[], { storage = defaultStorage } = {}): number {
+	const lastSeen = getLastSeen(pullRequest, { storage });
+	if (lastSeen === undefined) {
+		return events.length;
+	}
+
+	return events.filter(event => {
+		const date = getEventDate(event);
+		return !!date && new Date(date).getTime() > lastSeen;
+	}).length;
+}
+
+export async function markAsSeen(pullRequests: PullRequestModel[], { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage || !pullRequests.length) {
+		return;
+	}
+
+	const now = Date.now();
+	const lastSeen = { ...storage.get<{ [key: string]: number }>(LAST_SEEN_KEY, {}) };
+	pullRequests.forEach(pullRequest => lastSeen[getPullRequestKey(pullRequest)] = now);
+	await storage.update(LAST_SEEN_KEY, lastSeen);
+	didChange.fire(pullRequests);
+}
@@ -6,8 +6,8 @@
 
 import * as Octokit from '@octokit/rest';
 import * as vscode from 'vscode';
-import { IAccount, PullRequest, IGitHubRef } from './interface';
-import { Comment, Reaction } from '../common/comment';
+import { IAccount, PullRequest, IGitHubRef, ChecksState, ReviewDecision } from './interface';
+import { Comment, Reaction, DiffSide } from '../common/comment';
 import { parseDiffHunk, DiffHunk } from '../common/diffHunk';
 import * as Common from '../common/timelineEvent';
 import * as GraphQL from './graphql';
@@ -18,6 +18,7 @@ import { PRNode } from '../view/treeNodes/pullRequestNode';
 import { ReviewDocumentCommentProvider } from '../view/reviewDocumentCommentProvider';
 import { uniqBy } from '../common/utils';
 import { GitHubRepository } from './githubRepository';
+import * as CommentDrafts from './commentDrafts';
 
 export interface CommentHandler {
 	commentController?: vscode.CommentController;
@@ -59,21 +60,57 @@ export function createVSCodeCommentThread(thread: vscode.CommentThread, commentC
 		return comment;
 	});
 
+	CommentDrafts.trackThread(pullRequestModel, commentController, vscodeThread);
 	updateCommentThreadLabel(vscodeThread);
 
 	let commands = getAcceptInputCommands(vscodeThread, inDraftMode, node, pullRequestModel.githubRepository.supportsGraphQl);
 	vscodeThread.acceptInputCommand = commands.acceptInputCommand;
 	vscodeThread.additionalCommands = commands.additionalCommands;
-	vscodeThread.collapsibleState = thread.collapsibleState;
+	// Resolved conversations are collapsed, as on GitHub, unless a reply to them was left as a draft
+	if (CommentDrafts.hasDraft(vscodeThread)) {
+		vscodeThread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+	} else {
+		vscodeThread.collapsibleState = isCommentThreadResolved(vscodeThread) ? vscode.CommentThreadCollapsibleState.Collapsed : thread.collapsibleState;
+	}
 	return vscodeThread;
 }
 
+/**
+ * The key grouping comments into threads: comments are made in reply to the first comment at their position, and
+ * outdated comments, which have no position, are grouped by the line they were relocated to.
+ */
+export function getCommentThreadGroup(comment: Comment): string {
+	return comment.relocatedLine !== undefined ? `relocated:${comment.relocatedLine}` : String(comment.position);
+}
+
+/**
+ * The range of a comment thread whose last line is the given zero based line. Threads of comments spanning several
+ * lines start that many lines before.
+ */
+export function getCommentThreadRange(comment: Comment, line: number): vscode.Range {
+	const lineCount = comment.startLine !== undefined && comment.line !== undefined ? comment.line - comment.startLine : 0;
+	return new vscode.Range(Math.max(line - lineCount, 0), 0, line, 0);
+}
+
+export function isCommentThreadResolved(thread: vscode.CommentThread): boolean {
+	const firstComment = thread.comments[0] as (vscode.Comment & { _rawComment: Comment }) | undefined;
+	return !!firstComment && !!firstComment._rawComment.isResolved;
+}
+
+export function isCommentThreadRelocated(thread: vscode.CommentThread): boolean {
+	const firstComment = thread.comments[0] as (vscode.Comment & { _rawComment: Comment }) | undefined;
+	return !!firstComment && firstComment._rawComment.relocatedLine !== undefined;
+}
+
 export function updateCommentThreadLabel(thread: vscode.CommentThread) {
+	const draftLabel = CommentDrafts.getDraftLabel(thread);
 	if (thread.comments.length) {
 		const participantsList = uniqBy(thread.comments as vscode.Comment[], comment => comment.userName).map(comment => `@${comment.userName}`).join(', ');
-		thread.label = `Participants: ${participantsList}`;
+		const relocated = isCommentThreadRelocated(thread) ? 'Outdated – relocated · ' : '';
+		const draft = draftLabel ? ` · ${draftLabel}` : '';
+		thread.label = `${relocated}${isCommentThreadResolved(thread) ? 'Resolved · ' : ''}Participants: ${participantsList}${draft}`;
 	} else {
-		thread.label = 'Start discussion';
+		thread.label = draftLabel || 'Start discussion';
 	}
 }
 
@@ -114,6 +151,7 @@ export function updateCommentCommands(vscodeComment: vscode.Comment, commentCont
 export function convertRESTUserToAccount(user: Octokit.PullsListResponseItemUser, githubRepository: GitHubRepository): IAccount {
 	return {
 		login: user.login,
+		id: user.id,
 		url: user.html_url,
 		avatarUrl: githubRepository.isGitHubDotCom ? user.avatar_url : undefined
 	};
@@ -162,9 +200,13 @@ export function convertRESTPullRequestToRawPullRequest(pullRequest: Octokit.Pull
 			updatedAt: updated_at,
 			head: convertRESTHeadToIGitHubRef(head),
 			base: convertRESTHeadToIGitHubRef(base),
-			mergeable: (pullRequest as Octokit.PullsGetResponse).mergeable,
+			// GitHub answers null until it has computed whether the pull request has conflicts
+			mergeable: (pullRequest as Octokit.PullsGetResponse).mergeable === null ? undefined : (pullRequest as Octokit.PullsGetResponse).mergeable,
+			additions: (pullRequest as Octokit.PullsGetResponse).additions,
+			deletions: (pullRequest as Octokit.PullsGetResponse).deletions,
 			labels,
-			isDraft: draft
+			isDraft: draft,
+			maintainerCanModify: (pullRequest as Octokit.PullsGetResponse).maintainer_can_modify
 	};
 
 	return item;
@@ -217,7 +259,17 @@ export function convertIssuesCreateCommentResponseToComment(comment: Octokit.Iss
 	};
 }
 
+/**
+ * Fields of review comments spanning several lines, which are missing from the typings.
+ */
+interface MultiLineCommentFields {
+	start_line?: number | null;
+	line?: number | null;
+	side?: DiffSide;
+}
+
 export function convertPullRequestsGetCommentsResponseItemToComment(comment: Octokit.PullsListCommentsResponseItem | Octokit.PullsUpdateCommentResponse, githubRepository: GitHubRepository): Comment {
+	const { start_line, line, side } = comment as MultiLineCommentFields;
 	let ret: Comment = {
 		url: comment.url,
 		id: comment.id,
@@ -236,6 +288,12 @@ export function convertPullRequestsGetCommentsResponseItemToComment(comment: Oct
 		graphNodeId: comment.node_id
 	};
 
+	if (start_line && line) {
+		ret.startLine = start_line;
+		ret.line = line;
+		ret.side = side;
+	}
+
 	let diffHunks = parseCommentDiffHunk(ret);
 	ret.diffHunks = diffHunks;
 	return ret;
@@ -277,7 +335,12 @@ export function parseGraphQLComment(comment: GraphQL.ReviewComment): Comment {
 		commitId: comment.commit.oid,
 		originalPosition: comment.originalPosition,
 		originalCommitId: comment.originalCommit && comment.originalCommit.oid,
-		user: comment.author,
+		user: comment.author && {
+			login: comment.author.login,
+			id: comment.author.databaseId,
+			avatarUrl: comment.author.avatarUrl,
+			url: comment.author.url
+		},
 		createdAt: comment.createdAt,
 		htmlUrl: comment.url,
 		graphNodeId: comment.id,
@@ -286,6 +349,12 @@ export function parseGraphQLComment(comment: GraphQL.ReviewComment): Comment {
 		reactions: parseGraphQLReaction(comment.reactionGroups)
 	};
 
+	if (comment.startLine && comment.line) {
+		c.startLine = comment.startLine;
+		c.line = comment.line;
+		c.side = comment.diffSide;
+	}
+
 	const diffHunks = parseCommentDiffHunk(c);
 	c.diffHunks = diffHunks;
 
@@ -351,9 +420,12 @@ export function parseGraphQLPullRequest(pullRequest: GraphQL.PullRequestResponse
 		base: parseRef(graphQLPullRequest.baseRef),
 		user: parseAuthor(graphQLPullRequest.author, githubRepository),
 		merged: graphQLPullRequest.merged,
-		mergeable: graphQLPullRequest.mergeable === 'MERGEABLE',
+		mergeable: graphQLPullRequest.mergeable === 'UNKNOWN' ? undefined : graphQLPullRequest.mergeable === 'MERGEABLE',
+		additions: graphQLPullRequest.additions,
+		deletions: graphQLPullRequest.deletions,
 		labels: graphQLPullRequest.labels.nodes,
-		isDraft: graphQLPullRequest.isDraft
+		isDraft: graphQLPullRequest.isDraft,
+		maintainerCanModify: graphQLPullRequest.maintainerCanModify
 	};
 }
 
@@ -415,7 +487,8 @@ export function parseGraphQLTimelineEvents(events: (GraphQL.MergedEvent | GraphQ
 					sha: commitEv.oid,
 					author: commitEv.author.user ? parseAuthor(commitEv.author.user, githubRepository) : { login: commitEv.committer.name },
 					htmlUrl: commitEv.url,
-					message: commitEv.message
+					message: commitEv.message,
+					committedDate: commitEv.committedDate
 				} as Common.CommitEvent); // TODO remove cast
 				return;
 			case Common.EventType.Merged:
@@ -454,7 +527,7 @@ export function parseGraphQLTimelineEvents(events: (GraphQL.MergedEvent | GraphQ
 export function convertRESTTimelineEvents(events: any[]): Common.TimelineEvent[] {
 	events.forEach(event => {
 		if (event.event === Common.EventType.Commented) {
-
+			event.createdAt = event.created_at;
 		}
 
 		if (event.event === Common.EventType.Reviewed) {
@@ -465,6 +538,7 @@ export function convertRESTTimelineEvents(events: any[]): Common.TimelineEvent[]
 
 		if (event.event === Common.EventType.Committed) {
 			event.htmlUrl = event.html_url;
+			event.committedDate = event.committer && event.committer.date;
 		}
 	});
 
@@ -538,4 +612,36 @@ export function getRelatedUsersFromTimelineEvents(timelineEvents: Common.Timelin
 	});
 
 	return ret;
+}
+
+export function sortPullRequestsByUpdatedAt(pullRequests: PullRequestModel[]): PullRequestModel[] {
+	return pullRequests.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+export function parseGraphQLChecksState(state: 'EXPECTED' | 'ERROR' | 'FAILURE' | 'PENDING' | 'SUCCESS' | undefined): ChecksState | undefined {
+	switch (state) {
+		case 'SUCCESS':
+			return 'success';
+		case 'ERROR':
+		case 'FAILURE':
+			return 'failure';
+		case 'EXPECTED':
+		case 'PENDING':
+			return 'pending';
+		default:
+			return undefined;
+	}
+}
+
+export function parseGraphQLReviewDecision(reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null): ReviewDecision | undefined {
+	switch (reviewDecision) {
+		case 'APPROVED':
+			return 'approved';
+		case 'CHANGES_REQUESTED':
+			return 'changesRequested';
+		case 'REVIEW_REQUIRED':
+			return 'reviewRequired';
+		default:
+			return undefined;
+	}
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { PullRequestModel } from './pullRequestModel';
+import { getPullRequestKey } from './readState';
+
+export type WorkspaceStateContext = { workspaceState: vscode.Memento };
+
+/**
+ * For each pull request, the blob sha of each file at the time it was marked as viewed.
+ */
+type ViewedFilesState = { [pullRequestKey: string]: { [fileName: string]: string } };
+
+const VIEWED_FILES_KEY = 'githubPullRequests.viewedFiles';
+
+let defaultStorage: vscode.Memento | undefined = undefined;
+
+const didChange = new vscode.EventEmitter<PullRequestModel>();
+export const onDidChange = didChange.event;
+
+export function init(ctx: WorkspaceStateContext) {
+	defaultStorage = ctx.workspaceState;
+}
+
+/**
+ * Whether the file was marked as viewed. A file is no longer viewed once a new commit changes it,
+ * that is when its blob sha differs from the one it had when it was marked as viewed.
+ */
+export function isViewed(pullRequest: PullRequestModel, fileName: string, blobSha: string, { storage = defaultStorage } = {}): boolean {
+	if (!storage) {
+		return false;
+	}
+
+	const viewedFiles = storage.get<ViewedFilesState>(VIEWED_FILES_KEY, {})[getPullRequestKey(pullRequest)];
+	return !!viewedFiles && viewedFiles[fileName] === blobSha;
+}
+
+export async function setViewed(pullRequest: PullRequestModel, fileName: string, blobSha: string, viewed: boolean, { storage = defaultStorage } = {}): Promise<void> {
+	if (!storage) {
+		return;
+	}
+
+	const key = getPullRequestKey(pullRequest);
+	const state = storage.get<ViewedFilesState>(VIEWED_FILES_KEY, {});
+	const viewedFiles = { ...state[key] };
+	if (viewed) {
+		viewedFiles[fileName] = blobSha;
+	} else {
+		delete viewedFiles[fileName];
+	}
+
+	await storage.update(VIEWED_FILES_KEY, { ...state, [key]: viewedFiles });
+	didChange.fire(pullRequest);
+}
@@ -46,7 +46,10 @@ export const PullRequestBuilder = createBuilderClass<PullRequestResponse>()({
 			}),
 			merged: {default: false},
 			mergeable: {default: 'MERGEABLE'},
+			additions: {default: 3},
+			deletions: {default: 400},
 			isDraft: {default: false},
+			maintainerCanModify: {default: true},
 		}),
 	}),
 	rateLimit: {linked: RateLimitBuilder},
@@ -0,0 +1,19 @@
+import { MockTelemetry } from '../mocks/mockTelemetry';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { Remote } from '../../common/remote';
+import { Protocol } from '../../common/protocol';
+import { GitHubRepository } from '../../github/githubRepository';
+import { CredentialStore } from '../../github/credentials';
+import { PullRequestBuilder, PullRequestUnion } from './rest/pullRequestBuilder';
+import { convertRESTPullRequestToRawPullRequest } from '../../github/utils';
+
+/**
+ * Create the model of a pull request of the aaa/bbb repository from a REST response, for tests that only need the
+ * model itself.
+ */
+export function createPullRequestModel(pullRequest: PullRequestUnion = new PullRequestBuilder().number(1234).build()): PullRequestModel {
+	const url = 'https://github.com/aaa/bbb.git';
+	const remote = new Remote('origin', url, new Protocol(url));
+	const repository = new GitHubRepository(remote, new CredentialStore(new MockTelemetry()));
+	return new PullRequestModel(repository, remote, convertRESTPullRequestToRawPullRequest(pullRequest, repository));
+}
@@ -1,7 +1,7 @@
 import assert = require('assert');
 import { parseDiffHunk, DiffHunk, getModifiedContentFromDiffHunk } from '../../common/diffHunk';
 import { DiffLine, DiffChangeType } from '../../common/diffHunk';
-import { getDiffLineByPosition, mapHeadLineToDiffHunkPosition, mapCommentsToHead } from '../../common/diffPositionMapping';
+import { getDiffLineByPosition, mapHeadLineToDiffHunkPosition, mapCommentsToHead, getMultiLineCommentRange, mapOldLineToNew } from '../../common/diffPositionMapping';
 
 const diff_hunk_0 = [
 	`@@ -1,5 +1,6 @@`,
@@ -70,6 +70,24 @@ describe('diff hunk parsing', () => {
 		}
 	});
 
+	it('getMultiLineCommentRange', () => {
+		let diffHunkReader = parseDiffHunk(diff_hunk_0);
+		let diffHunkIter = diffHunkReader.next();
+		let diffHunk = diffHunkIter.value;
+
+		assert.deepEqual(getMultiLineCommentRange([diffHunk], 2, 8, false), { startLine: 2, line: 5, side: 'RIGHT' });
+		assert.deepEqual(getMultiLineCommentRange([diffHunk], 1, 5, true), { startLine: 1, line: 5, side: 'LEFT' });
+		assert.equal(getMultiLineCommentRange([diffHunk], 1, 20, false), undefined);
+	});
+
+	it('mapOldLineToNew', () => {
+		assert.equal(mapOldLineToNew(diff_hunk_0, 2), 2);
+		assert.equal(mapOldLineToNew(diff_hunk_0, 4), undefined);
+		assert.equal(mapOldLineToNew(diff_hunk_0, 6), 7);
+		assert.equal(mapOldLineToNew('@@ -3,0 +4,2 @@\n+a\n+b', 3), 3);
+		assert.equal(mapOldLineToNew('@@ -3,0 +4,2 @@\n+a\n+b', 4), 6);
+	});
+
 	it('#239. Diff hunk parsing fails when line count for added content is omitted', () => {
 		let diffHunkReader = parseDiffHunk('@@ -0,0 +1 @@');
 		let diffHunkIter = diffHunkReader.next();
@@ -103,6 +121,17 @@ describe('diff hunk parsing', () => {
 			console.log(mappedComments[0].absolutePosition);
 			assert.equal(mappedComments[0].absolutePosition, 489);
 		});
+
+		it('maps relocated outdated comments from the line they moved to', () => {
+			const comments = [{
+				position: null,
+				originalPosition: 3,
+				relocatedLine: 10
+			}];
+
+			const mappedComments = mapCommentsToHead([], '@@ -1,2 +1,4 @@\n a\n+b\n+c\n d', comments as any);
+			assert.equal(mappedComments[0].absolutePosition, 12);
+		});
 	});
 
 	describe('getModifiedContentFromDiffHunk', () => {
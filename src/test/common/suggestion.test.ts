@@ -0,0 +1,52 @@
+import assert = require('assert');
+import { getSuggestedLines, createSuggestionBody, createSuggestionPatch } from '../../common/suggestion';
+
+describe('suggestion', () => {
+	describe('getSuggestedLines', () => {
+		it('returns the lines of a suggestion block', () => {
+			assert.deepEqual(getSuggestedLines('Maybe:\n```suggestion\nconst a = 1;\nconst b = 2;\n```\nWhat do you think?'), ['const a = 1;', 'const b = 2;']);
+		});
+
+		it('returns no lines for an empty suggestion', () => {
+			assert.deepEqual(getSuggestedLines('```suggestion\n```'), []);
+		});
+
+		it('returns undefined when there is no suggestion', () => {
+			assert.equal(getSuggestedLines('```ts\nconst a = 1;\n```'), undefined);
+		});
+
+		it('reads back the body it creates', () => {
+			assert.deepEqual(getSuggestedLines(createSuggestionBody(['a', '', 'b'])), ['a', '', 'b']);
+		});
+	});
+
+	describe('createSuggestionPatch', () => {
+		const content = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+
+		it('replaces the lines with context', () => {
+			assert.equal(createSuggestionPatch('a.txt', content + '\n', 5, 6, ['five', 'six', 'more']), [
+				'diff --git a/a.txt b/a.txt',
+				'--- a/a.txt',
+				'+++ b/a.txt',
+				'@@ -2,8 +2,9 @@',
+				' 2', ' 3', ' 4', '-5', '-6', '+five', '+six', '+more', ' 7', ' 8', ' 9',
+				''
+			].join('\n'));
+		});
+
+		it('marks the last line when the file does not end with a line break', () => {
+			assert.equal(createSuggestionPatch('a.txt', content, 10, 10, ['ten']), [
+				'diff --git a/a.txt b/a.txt',
+				'--- a/a.txt',
+				'+++ b/a.txt',
+				'@@ -7,4 +7,4 @@',
+				' 7', ' 8', ' 9', '-10', '\\ No newline at end of file', '+ten', '\\ No newline at end of file',
+				''
+			].join('\n'));
+		});
+
+		it('throws when the lines are not in the file', () => {
+			assert.throws(() => createSuggestionPatch('a.txt', content, 10, 11, []));
+		});
+	});
+});
@@ -36,6 +36,18 @@ describe('utils', () => {
 		});
 	});
 
+	describe('isNetworkError', () => {
+		it('should detect connection failures wrapped by octokit', () => {
+			const error = new Error('request to https://api.github.com/user failed, reason: getaddrinfo ENOTFOUND api.github.com');
+			assert(utils.isNetworkError(error));
+		});
+
+		it('should not treat errors returned by GitHub as network errors', () => {
+			assert(!utils.isNetworkError(new Error('Not Found')));
+			assert(!utils.isNetworkError(undefined));
+		});
+	});
+
 	describe('promiseFromEvent', () => {
 		const hasListeners = (emitter: any) =>
 			!emitter._listeners!.isEmpty();
@@ -0,0 +1,82 @@
+import assert = require('assert');
+import * as vscode from 'vscode';
+
+import * as CommentDrafts from '../../github/commentDrafts';
+import { InMemoryMemento } from '../mocks/inMemoryMemento';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { PullRequestBuilder } from '../builders/rest/pullRequestBuilder';
+import { createPullRequestModel } from '../builders/pullRequestModel';
+
+describe('CommentDrafts', function() {
+	let storage: InMemoryMemento;
+	let pullRequest: PullRequestModel;
+	const uri = vscode.Uri.file('/root/src/a.ts');
+
+	beforeEach(function() {
+		storage = new InMemoryMemento();
+
+		pullRequest = createPullRequestModel();
+	});
+
+	it('stores drafts by thread', async function() {
+		const draft = { uri: uri.toString(), startLine: 3, endLine: 5, body: 'Why?', isNewThread: true, savedAt: 0 };
+		const reply = { uri: uri.toString(), startLine: 8, endLine: 8, body: 'Done', isNewThread: false, savedAt: 0 };
+		await CommentDrafts.setDraft(pullRequest, 'new-thread', draft, { storage });
+		await CommentDrafts.setDraft(pullRequest, 'review-thread', reply, { storage });
+
+		assert.deepEqual(CommentDrafts.getDraft(pullRequest, 'new-thread', { storage }), draft);
+		assert.deepEqual(CommentDrafts.getDraft(pullRequest, 'review-thread', { storage }), reply);
+		assert.equal(CommentDrafts.getDraft(pullRequest, 'other-thread', { storage }), undefined);
+	});
+
+	it('finds the drafts of the new threads of a document', async function() {
+		const draft = { uri: uri.toString(), startLine: 3, endLine: 5, body: 'Why?', isNewThread: true, savedAt: 0 };
+		await CommentDrafts.setDraft(pullRequest, 'new-thread', draft, { storage });
+		await CommentDrafts.setDraft(pullRequest, 'review-thread', { ...draft, isNewThread: false, savedAt: 0 }, { storage });
+
+		assert.deepEqual(CommentDrafts.getNewThreadDrafts(pullRequest, uri, { storage }), { 'new-thread': draft });
+		assert.deepEqual(CommentDrafts.getNewThreadDrafts(pullRequest, vscode.Uri.file('/root/src/b.ts'), { storage }), {});
+	});
+
+	it('removes drafts', async function() {
+		await CommentDrafts.setDraft(pullRequest, 'new-thread', { uri: uri.toString(), startLine: 3, endLine: 3, body: 'Why?', isNewThread: true, savedAt: 0 }, { storage });
+		await CommentDrafts.setDraft(pullRequest, 'new-thread', undefined, { storage });
+
+		assert.equal(CommentDrafts.getDraft(pullRequest, 'new-thread', { storage }), undefined);
+		assert.deepEqual(CommentDrafts.getNewThreadDrafts(pullRequest, uri, { storage }), {});
+	});
+
+	it('stores the drafts of the overview', async function() {
+		await CommentDrafts.setOverviewDrafts(pullRequest, { 42: 'Edited' }, { storage });
+		assert.deepEqual(CommentDrafts.getOverviewDrafts(pullRequest, { storage }), { 42: 'Edited' });
+
+		await CommentDrafts.setOverviewDrafts(pullRequest, {}, { storage });
+		assert.deepEqual(CommentDrafts.getOverviewDrafts(pullRequest, { storage }), {});
+	});
+
+	it('forgets the drafts of closed pull requests', async function() {
+		const closed = createPullRequestModel(new PullRequestBuilder().number(1235).state('closed').build());
+		const draft = { uri: uri.toString(), startLine: 3, endLine: 3, body: 'Why?', isNewThread: true, savedAt: 0 };
+		await CommentDrafts.setDraft(pullRequest, 'new-thread', draft, { storage });
+		await CommentDrafts.setDraft(closed, 'new-thread', draft, { storage });
+		await CommentDrafts.setOverviewDrafts(closed, { 42: 'Edited' }, { storage });
+
+		await CommentDrafts.forgetClosedPullRequests([pullRequest, closed], { storage });
+
+		assert.deepEqual(CommentDrafts.getDraft(pullRequest, 'new-thread', { storage }), draft);
+		assert.equal(CommentDrafts.getDraft(closed, 'new-thread', { storage }), undefined);
+		assert.deepEqual(CommentDrafts.getOverviewDrafts(closed, { storage }), {});
+	});
+
+	it('prunes drafts matching a predicate', async function() {
+		const old = { uri: uri.toString(), startLine: 3, endLine: 3, body: 'Why?', isNewThread: true, savedAt: 1 };
+		const recent = { ...old, savedAt: 2 };
+		await CommentDrafts.setDraft(pullRequest, 'old-thread', old, { storage });
+		await CommentDrafts.setDraft(pullRequest, 'recent-thread', recent, { storage });
+
+		await CommentDrafts.pruneDrafts(draft => draft.savedAt < 2, { storage });
+
+		assert.equal(CommentDrafts.getDraft(pullRequest, 'old-thread', { storage }), undefined);
+		assert.deepEqual(CommentDrafts.getDraft(pullRequest, 'recent-thread', { storage }), recent);
+	});
+});
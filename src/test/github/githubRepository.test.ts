@@ -6,6 +6,7 @@ import { MockTelemetry } from '../mocks/mockTelemetry';
 import { Remote } from '../../common/remote';
 import { Protocol } from '../../common/protocol';
 import { GitHubRepository } from '../../github/githubRepository';
+import { MockGitHubRepository } from '../mocks/mockGitHubRepository';
 
 describe('GitHubRepository', function() {
 	let sinon: SinonSandbox;
@@ -38,4 +39,29 @@ describe('GitHubRepository', function() {
 			assert(!dotcomRepository.isGitHubDotCom);
 		});
 	});
+
+	describe('hasPullRequestsChanged', function() {
+		it('sends the ETag of the last fetch to detect changes', async function() {
+			const url = 'https://github.com/some/repo';
+			const remote = new Remote('origin', url, new Protocol(url));
+			const repository = new MockGitHubRepository(remote, credentialStore, sinon);
+
+			const list = sinon.stub().resolves({ data: [], headers: { etag: 'W/"1"' } });
+			const request = sinon.stub();
+			request.onFirstCall().rejects(Object.assign(new Error('Not modified'), { status: 304 }));
+			request.onSecondCall().resolves({ data: [], headers: { etag: 'W/"2"' } });
+			(repository.octokit as any).pulls = { list };
+			(repository.octokit as any).request = request;
+
+			assert(!await repository.hasPullRequestsChanged(), 'nothing has been fetched yet');
+			assert.strictEqual(request.callCount, 0);
+
+			await repository.getAllPullRequests(1);
+			assert(!await repository.hasPullRequestsChanged());
+			assert.strictEqual(request.firstCall.args[0], 'GET /repos/:owner/:repo/pulls');
+			assert.strictEqual(request.firstCall.args[1].headers['if-none-match'], 'W/"1"');
+
+			assert(await repository.hasPullRequestsChanged());
+		});
+	});
 });
\ No newline at end of file
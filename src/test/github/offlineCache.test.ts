@@ -0,0 +1,41 @@
+import assert = require('assert');
+
+import * as OfflineCache from '../../github/offlineCache';
+import { InMemoryMemento } from '../mocks/inMemoryMemento';
+
+describe('OfflineCache', function() {
+	let storage: InMemoryMemento;
+
+	beforeEach(function() {
+		storage = new InMemoryMemento();
+	});
+
+	it('returns the last value set for a key', async function() {
+		await OfflineCache.set('a', { title: 'First' }, { storage });
+		await OfflineCache.set('a', { title: 'Second' }, { storage });
+
+		const cached = OfflineCache.get<{ title: string }>('a', { storage });
+		assert.deepEqual(cached && cached.value, { title: 'Second' });
+		assert.equal(OfflineCache.get('b', { storage }), undefined);
+	});
+
+	it('forgets the values written least recently', async function() {
+		for (let i = 0; i < 101; i++) {
+			await OfflineCache.set(`key${i}`, i, { storage });
+		}
+		await OfflineCache.set('key0', 0, { storage });
+		await OfflineCache.set('key101', 101, { storage });
+
+		assert(OfflineCache.get('key0', { storage }));
+		assert.equal(OfflineCache.get('key1', { storage }), undefined);
+		assert.equal(OfflineCache.get('key2', { storage }), undefined);
+		assert(OfflineCache.get('key3', { storage }));
+		assert(OfflineCache.get('key101', { storage }));
+	});
+
+	it('does not cache values that are too large', async function() {
+		await OfflineCache.set('large', 'a'.repeat(5 * 1024 * 1024), { storage });
+
+		assert.equal(OfflineCache.get('large', { storage }), undefined);
+	});
+});
@@ -0,0 +1,37 @@
+import assert = require('assert');
+
+import * as Pins from '../../github/pins';
+import { InMemoryMemento } from '../mocks/inMemoryMemento';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { createPullRequestModel } from '../builders/pullRequestModel';
+
+describe('Pins', function() {
+	let storage: InMemoryMemento;
+	let pullRequest: PullRequestModel;
+
+	beforeEach(function() {
+		storage = new InMemoryMemento();
+
+		pullRequest = createPullRequestModel();
+	});
+
+	it('stores pins by owner, repository and number', async function() {
+		assert(!Pins.isPinned(pullRequest, { storage }));
+
+		await Pins.pin(pullRequest, { storage });
+		await Pins.pin(pullRequest, { storage });
+
+		assert(Pins.isPinned(pullRequest, { storage }));
+		assert.deepStrictEqual(Pins.getPinnedPullRequests({ storage }), [
+			{ owner: 'aaa', repositoryName: 'bbb', prNumber: 1234 }
+		]);
+	});
+
+	it('removes unpinned pull requests', async function() {
+		await Pins.pin(pullRequest, { storage });
+		await Pins.unpin(pullRequest, { storage });
+
+		assert(!Pins.isPinned(pullRequest, { storage }));
+		assert.deepStrictEqual(Pins.getPinnedPullRequests({ storage }), []);
+	});
+});
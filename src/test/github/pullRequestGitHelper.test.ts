@@ -57,6 +57,8 @@ describe('PullRequestGitHelper', function () {
 
 			repository.expectFetch('you', 'my-branch:pr/me/100', 1);
 			repository.expectPull(true);
+			// Git is run directly to add the refspec pushing the branch to the fork
+			const exec = sinon.stub(PullRequestGitHelper as any, 'exec').returns(Promise.resolve(''));
 
 			const pullRequest = new PullRequestModel(gitHubRepository, remote, prItem);
 
@@ -78,6 +80,73 @@ describe('PullRequestGitHelper', function () {
 				}
 			});
 			assert.strictEqual(await repository.getConfig('branch.pr/me/100.github-pr-owner-number'), 'owner#name#100');
+			assert.strictEqual(await repository.getConfig('remote.you.pushurl'), 'git@github.com:you/name');
+			assert(exec.calledWith(repository, ['config', '--local', '--add', 'remote.you.push', 'refs/heads/pr/me/100:refs/heads/my-branch']));
+		});
+	});
+
+	describe('removeUnusedPullRequestRemotes', function () {
+		it('removes only the pull request remotes that no branch tracks', async function () {
+			await repository.addRemote('origin', 'git@github.com:owner/name.git');
+			await repository.addRemote('you', 'git@github.com:you/name.git');
+			await repository.addRemote('them', 'git@github.com:them/name.git');
+			await repository.setConfig('remote.you.github-pr-remote', 'true');
+			await repository.setConfig('remote.them.github-pr-remote', 'true');
+			await repository.setConfig('branch.pr/you/100.remote', 'you');
+			await repository.setConfig('branch.master.remote', 'origin');
+
+			const removed = await PullRequestGitHelper.removeUnusedPullRequestRemotes(repository);
+
+			assert.deepEqual(removed, ['them']);
+			assert.deepEqual(repository.state.remotes.map(r => r.name), ['origin', 'you']);
+		});
+	});
+
+	describe('parseWorktrees', function () {
+		it('parses the worktrees and their branches', function () {
+			const output = [
+				'worktree /src/repo',
+				'HEAD 1111111111111111111111111111111111111111',
+				'branch refs/heads/master',
+				'',
+				'worktree /src/repo-pr-100',
+				'HEAD 2222222222222222222222222222222222222222',
+				'branch refs/heads/pr/me/100',
+				'',
+				'worktree /src/repo-detached',
+				'HEAD 3333333333333333333333333333333333333333',
+				'detached',
+				''
+			].join('\n');
+
+			assert.deepEqual(PullRequestGitHelper.parseWorktrees(output), [
+				{ path: '/src/repo', branchName: 'master' },
+				{ path: '/src/repo-pr-100', branchName: 'pr/me/100' },
+				{ path: '/src/repo-detached', branchName: undefined }
+			]);
+		});
+	});
+
+	describe('getPullRequestStashes', function () {
+		it('reads the stashes recorded in the config of branches', async function () {
+			await repository.setConfig('branch.master.github-pr-stash', 'owner#name#100#0123456789abcdef');
+			await repository.setConfig('branch.feature.github-pr-stash', 'not a stash');
+			await repository.setConfig('branch.master.github-pr-owner-number', 'owner#name#100');
+
+			const stashes = await PullRequestGitHelper.getPullRequestStashes(repository);
+
+			assert.deepEqual(stashes, [{
+				branchName: 'master',
+				commit: '0123456789abcdef',
+				metadata: { owner: 'owner', repositoryName: 'name', prNumber: 100 }
+			}]);
+		});
+	});
+
+	describe('parseAheadBehind', function () {
+		it('parses the counts of commits on each side', function () {
+			assert.deepEqual(PullRequestGitHelper.parseAheadBehind('3\t12\n'), { ahead: 3, behind: 12 });
+			assert.deepEqual(PullRequestGitHelper.parseAheadBehind('0\t0\n'), { ahead: 0, behind: 0 });
 		});
 	});
 });
\ No newline at end of file
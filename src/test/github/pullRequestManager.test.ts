@@ -11,18 +11,20 @@ import { Protocol } from '../../common/protocol';
 import { GitHubRepository } from '../../github/githubRepository';
 import { PullRequestBuilder } from '../builders/rest/pullRequestBuilder';
 import { convertRESTPullRequestToRawPullRequest } from '../../github/utils';
+import { PullRequestGitHelper } from '../../github/pullRequestGitHelper';
 
 describe('PullRequestManager', function() {
 	let sinon: SinonSandbox;
 	let manager: PullRequestManager;
+	let localRepository: MockRepository;
 
 	beforeEach(function() {
 		sinon = createSandbox();
 		MockCommandRegistry.install(sinon);
 
 		const telemetry = new MockTelemetry();
-		const repository = new MockRepository();
-		manager = new PullRequestManager(repository, telemetry);
+		localRepository = new MockRepository();
+		manager = new PullRequestManager(localRepository, telemetry);
 	});
 
 	afterEach(function () {
@@ -48,4 +50,22 @@ describe('PullRequestManager', function() {
 			assert.deepStrictEqual(manager.activePullRequest, pr);
 		});
 	});
+
+	describe('getFilesChangedSince', function() {
+		it('returns the files of the pull request that changed between the commit and the head', async function() {
+			const url = 'https://github.com/aaa/bbb.git';
+			const remote = new Remote('origin', url, new Protocol(url));
+			const gitHubRepository = new GitHubRepository(remote, manager.credentialStore);
+			const prItem = convertRESTPullRequestToRawPullRequest(new PullRequestBuilder().number(1234).head(h => h.sha('head-sha')).build(), gitHubRepository);
+			const pr = new PullRequestModel(gitHubRepository, remote, prItem);
+
+			// The commits are not available locally until the head of the pull request is fetched
+			localRepository.expectFetch('origin', 'refs/pull/1234/head');
+			const getChangedFileNames = sinon.stub(PullRequestGitHelper, 'getChangedFileNames');
+			getChangedFileNames.withArgs(localRepository, 'reviewed-sha', 'head-sha').resolves(['changed.ts', 'merged-from-base.ts']);
+
+			const changedFiles = await manager.getFilesChangedSince(pr, 'reviewed-sha', ['changed.ts', 'unchanged.ts']);
+			assert.deepStrictEqual(changedFiles, ['changed.ts']);
+		});
+	});
 });
\ No newline at end of file
@@ -0,0 +1,80 @@
+import assert = require('assert');
+
+import { parseQuery, replaceQueryVariables, matchesQualifier } from '../../github/queryFilters';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { PullRequestBuilder } from '../builders/rest/pullRequestBuilder';
+import { PullRequestBuilder as PullRequestGraphQLBuilder } from '../builders/graphql/pullRequestBuilder';
+import { createPullRequestModel } from '../builders/pullRequestModel';
+import { parseGraphQLPullRequest } from '../../github/utils';
+
+describe('Query filters', function() {
+	describe('replaceQueryVariables', function() {
+		it('replaces named variables and leaves unknown ones', function() {
+			assert.strictEqual(
+				replaceQueryVariables('repo:${repo} head:${branch} author:${user}', { repo: 'aaa/bbb', branch: 'feature' }),
+				'repo:aaa/bbb head:feature author:${user}'
+			);
+		});
+
+		it('replaces relative dates', function() {
+			const now = new Date('2019-06-15T12:00:00Z');
+			assert.strictEqual(replaceQueryVariables('updated:>=${today-7d}', {}, now), 'updated:>=2019-06-08');
+			assert.strictEqual(replaceQueryVariables('created:<${today-2w} closed:${today}', {}, now), 'created:<2019-06-01 closed:2019-06-15');
+		});
+	});
+
+	describe('parseQuery', function() {
+		it('separates client-side qualifiers from the search query', function() {
+			const { searchQuery, qualifiers, unknownQualifiers } = parseQuery('is:open label:"help wanted" ci:failing size:>500 draft:false');
+			assert.strictEqual(searchQuery, 'is:open label:"help wanted"');
+			assert.deepStrictEqual(qualifiers, [
+				{ name: 'ci', value: 'failing' },
+				{ name: 'size', value: '>500' },
+				{ name: 'draft', value: 'false' }
+			]);
+			assert.deepStrictEqual(unknownQualifiers, []);
+		});
+
+		it('reports unknown qualifiers and invalid values', function() {
+			const { searchQuery, unknownQualifiers } = parseQuery('is:open colour:red conflicts:maybe');
+			assert.strictEqual(searchQuery, 'is:open colour:red');
+			assert.deepStrictEqual(unknownQualifiers, ['colour:red', 'conflicts:maybe']);
+		});
+	});
+
+	describe('matchesQualifier', function() {
+		let pullRequest: PullRequestModel;
+
+		beforeEach(function() {
+			pullRequest = createPullRequestModel(new PullRequestBuilder().additions(300).deletions(250).mergeable(false).build());
+		});
+
+		it('matches the size of the changes', function() {
+			assert(matchesQualifier(pullRequest, { name: 'size', value: '>500' }));
+			assert(!matchesQualifier(pullRequest, { name: 'size', value: '<=500' }));
+			assert(matchesQualifier(pullRequest, { name: 'size', value: '500..600' }));
+		});
+
+		it('matches conflicts and checks', function() {
+			assert(matchesQualifier(pullRequest, { name: 'conflicts', value: 'yes' }));
+			assert(!matchesQualifier(pullRequest, { name: 'ci', value: 'failing' }));
+
+			pullRequest.checksState = 'failure';
+			assert(matchesQualifier(pullRequest, { name: 'ci', value: 'failing' }));
+		});
+
+		it('does not match conflicts that GitHub has not computed yet', function() {
+			const { githubRepository, remote } = pullRequest;
+			const graphQLItem = parseGraphQLPullRequest(new PullRequestGraphQLBuilder().repository(r => r.pullRequest(p => p.mergeable('UNKNOWN'))).build(), githubRepository);
+			const unknownPullRequests = [
+				createPullRequestModel(new PullRequestBuilder().mergeable(null as any).build()),
+				new PullRequestModel(githubRepository, remote, graphQLItem)
+			];
+
+			for (const unknown of unknownPullRequests) {
+				assert(!matchesQualifier(unknown, { name: 'conflicts', value: 'yes' }));
+				assert(!matchesQualifier(unknown, { name: 'conflicts', value: 'no' }));
+			}
+		});
+	});
+});
@@ -0,0 +1,49 @@
+import assert = require('assert');
+
+import * as ReadState from '../../github/readState';
+import { InMemoryMemento } from '../mocks/inMemoryMemento';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { PullRequestBuilder } from '../builders/rest/pullRequestBuilder';
+import { createPullRequestModel } from '../builders/pullRequestModel';
+import { EventType, TimelineEvent } from '../../common/timelineEvent';
+
+describe('ReadState', function() {
+	let storage: InMemoryMemento;
+	let pullRequest: PullRequestModel;
+
+	beforeEach(function() {
+		storage = new InMemoryMemento();
+
+		pullRequest = createPullRequestModel(new PullRequestBuilder().updated_at('2019-01-01T08:00:00Z').build());
+	});
+
+	it('treats pull requests that were never opened as unread', function() {
+		assert.strictEqual(ReadState.getLastSeen(pullRequest, { storage }), undefined);
+		assert(ReadState.isUnread(pullRequest, { storage }));
+	});
+
+	it('marks pull requests as read until they are updated again', async function() {
+		await ReadState.markAsSeen([pullRequest], { storage });
+		assert(!ReadState.isUnread(pullRequest, { storage }));
+
+		pullRequest.updatedAt = new Date(Date.now() + 60 * 1000).toISOString();
+		assert(ReadState.isUnread(pullRequest, { storage }));
+	});
+
+	it('counts only the timeline events that happened after the pull request was last opened', async function() {
+		await ReadState.markAsSeen([pullRequest], { storage });
+		const lastSeen = ReadState.getLastSeen(pullRequest, { storage })!;
+		const before = new Date(lastSeen - 1000).toISOString();
+		const after = new Date(lastSeen + 1000).toISOString();
+
+		const events = [
+			{ event: EventType.Commented, createdAt: before },
+			{ event: EventType.Commented, createdAt: after },
+			{ event: EventType.Reviewed, submittedAt: after },
+			{ event: EventType.Committed, committedDate: after },
+			{ event: EventType.Assigned }
+		] as TimelineEvent[];
+
+		assert.strictEqual(ReadState.countUnreadEvents(pullRequest, events, { storage }), 3);
+	});
+});
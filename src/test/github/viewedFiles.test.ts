@@ -0,0 +1,34 @@
+import assert = require('assert');
+
+import * as ViewedFiles from '../../github/viewedFiles';
+import { InMemoryMemento } from '../mocks/inMemoryMemento';
+import { PullRequestModel } from '../../github/pullRequestModel';
+import { createPullRequestModel } from '../builders/pullRequestModel';
+
+describe('ViewedFiles', function() {
+	let storage: InMemoryMemento;
+	let pullRequest: PullRequestModel;
+
+	beforeEach(function() {
+		storage = new InMemoryMemento();
+
+		pullRequest = createPullRequestModel();
+	});
+
+	it('stores viewed files by blob sha', async function() {
+		assert(!ViewedFiles.isViewed(pullRequest, 'src/a.ts', '1111', { storage }));
+
+		await ViewedFiles.setViewed(pullRequest, 'src/a.ts', '1111', true, { storage });
+
+		assert(ViewedFiles.isViewed(pullRequest, 'src/a.ts', '1111', { storage }));
+		assert(!ViewedFiles.isViewed(pullRequest, 'src/a.ts', '2222', { storage }), 'a new commit changing the file makes it unviewed');
+		assert(!ViewedFiles.isViewed(pullRequest, 'src/b.ts', '1111', { storage }));
+	});
+
+	it('removes files marked as not viewed', async function() {
+		await ViewedFiles.setViewed(pullRequest, 'src/a.ts', '1111', true, { storage });
+		await ViewedFiles.setViewed(pullRequest, 'src/a.ts', '1111', false, { storage });
+
+		assert(!ViewedFiles.isViewed(pullRequest, 'src/a.ts', '1111', { storage }));
+	});
+});
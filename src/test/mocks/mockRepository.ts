@@ -1,7 +1,7 @@
 import { Uri } from 'vscode';
 import { isEqual } from 'lodash';
 
-import { Repository, RepositoryState, RepositoryUIState, Commit, Branch, RefType } from '../../api/api';
+import { Repository, RepositoryState, RepositoryUIState, Commit, Branch, RefType, CommitOptions } from '../../api/api';
 
 type Mutable<T> = {
 	-readonly[P in keyof T]: T[P];
@@ -64,6 +64,14 @@ export class MockRepository implements Repository {
 		return Promise.reject(new Error(`Unexpected apply(..., ${reverse})`));
 	}
 
+	add(paths: string[]): Promise<void> {
+		return Promise.reject(new Error(`Unexpected add(${paths.join(', ')})`));
+	}
+
+	commit(message: string, opts?: CommitOptions | undefined): Promise<void> {
+		return Promise.reject(new Error(`Unexpected commit(${message})`));
+	}
+
 	diff(cached?: boolean | undefined): Promise<string> {
 		return Promise.reject(new Error(`Unexpected diff(${cached})`));
 	}
@@ -0,0 +1,40 @@
+import assert = require('assert');
+import * as vscode from 'vscode';
+import { CommentThreadLocation, findNextCommentThreadLocation } from '../../view/commentThreadNavigation';
+
+describe('findNextCommentThreadLocation', function () {
+	const first = vscode.Uri.file('/root/a.ts');
+	const second = vscode.Uri.file('/root/b.ts');
+	const other = vscode.Uri.file('/root/c.ts');
+
+	const at = (uri: vscode.Uri, line: number): CommentThreadLocation => ({
+		uri,
+		range: new vscode.Range(line, 0, line, 0),
+		isOutdated: false,
+		isResolved: false,
+		commentIds: []
+	});
+
+	const locations = [at(first, 3), at(first, 10), at(second, 5)];
+
+	it('goes to the next thread of the document', function () {
+		assert.strictEqual(findNextCommentThreadLocation(locations, first, 4, true), locations[1]);
+		assert.strictEqual(findNextCommentThreadLocation(locations, first, 10, false), locations[0]);
+	});
+
+	it('goes to the next file after the last thread of the document', function () {
+		assert.strictEqual(findNextCommentThreadLocation(locations, first, 10, true), locations[2]);
+		assert.strictEqual(findNextCommentThreadLocation(locations, second, 5, false), locations[1]);
+	});
+
+	it('wraps around', function () {
+		assert.strictEqual(findNextCommentThreadLocation(locations, second, 5, true), locations[0]);
+		assert.strictEqual(findNextCommentThreadLocation(locations, first, 3, false), locations[2]);
+	});
+
+	it('starts from the first or last thread in a document without threads', function () {
+		assert.strictEqual(findNextCommentThreadLocation(locations, other, 0, true), locations[0]);
+		assert.strictEqual(findNextCommentThreadLocation(locations, undefined, 0, false), locations[2]);
+		assert.strictEqual(findNextCommentThreadLocation([], first, 0, true), undefined);
+	});
+});
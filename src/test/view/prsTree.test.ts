@@ -17,7 +17,8 @@ import { PullRequestModel } from '../../github/pullRequestModel';
 import { Remote } from '../../common/remote';
 import { Protocol } from '../../common/protocol';
 import { CredentialStore } from '../../github/credentials';
-import { parseGraphQLPullRequest } from '../../github/utils';
+import { parseGraphQLPullRequest, convertRESTPullRequestToRawPullRequest } from '../../github/utils';
+import { PullRequestBuilder } from '../builders/rest/pullRequestBuilder';
 import { Resource } from '../../common/resources';
 
 describe('GitHub Pull Requests view', function() {
@@ -177,4 +178,41 @@ describe('GitHub Pull Requests view', function() {
 			assert.deepEqual(localItem1.iconPath!.toString(), 'https://avatars.com/you.jpg&s=64');
 		});
 	});
+
+	describe('All', function() {
+		it('merges pull requests from every remote sorted by last update', async function() {
+			const repository = new MockRepository();
+			await repository.addRemote('upstream', 'git@github.com:aaa/bbb');
+			await repository.addRemote('origin', 'git@github.com:ccc/bbb');
+
+			const credentialStore = new CredentialStore(telemetry);
+			const manager = new PullRequestManager(repository, telemetry, credentialStore);
+			sinon.stub(manager, 'createGitHubRepository').callsFake((remote, cs) => {
+				const gitHubRepository = new MockGitHubRepository(remote, cs, sinon);
+				const pullRequests = remote.remoteName === 'upstream'
+					? [{ number: 1, updatedAt: '2019-01-01T08:00:00Z' }, { number: 3, updatedAt: '2019-01-03T08:00:00Z' }]
+					: [{ number: 2, updatedAt: '2019-01-02T08:00:00Z' }];
+				sinon.stub(gitHubRepository, 'getAllPullRequests').resolves({
+					pullRequests: pullRequests.map(({ number, updatedAt }) => {
+						const prItem = convertRESTPullRequestToRawPullRequest(
+							new PullRequestBuilder().number(number).title(`pr ${number}`).updated_at(updatedAt).build(),
+							gitHubRepository
+						);
+						return new PullRequestModel(gitHubRepository, remote, prItem);
+					}),
+					hasMorePages: false
+				});
+				return gitHubRepository;
+			});
+			provider.initialize(manager);
+			await manager.updateRepositories();
+
+			const rootNodes = await provider.getChildren();
+			const allNode = rootNodes.find(node => node.getTreeItem().label === 'All');
+			assert(allNode);
+
+			const allChildren = await allNode!.getChildren();
+			assert.deepEqual(allChildren.map(node => node.getTreeItem().label), ['pr 3', 'pr 2', 'pr 1']);
+		});
+	});
 });
\ No newline at end of file
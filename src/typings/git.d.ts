@@ -105,6 +105,10 @@ export interface RepositoryState {
 	readonly onDidChange: Event<void>;
 }
 
+export interface CommitOptions {
+	all?: boolean | 'tracked';
+}
+
 export interface RepositoryUIState {
 	readonly selected: boolean;
 	readonly onDidChange: Event<void>;
@@ -130,6 +134,8 @@ export interface Repository {
 	clean(paths: string[]): Promise<void>;
 
 	apply(patch: string, reverse?: boolean): Promise<void>;
+	add(paths: string[]): Promise<void>;
+	commit(message: string, opts?: CommitOptions): Promise<void>;
 	diff(cached?: boolean): Promise<string>;
 	diffWithHEAD(path: string): Promise<string>;
 	diffWith(ref: string, path: string): Promise<string>;
@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { Comment } from '../common/comment';
+
+/**
+ * Where a comment thread of a pull request is shown. The thread itself is only known when it was already created,
+ * which is not the case for the threads of `pr` documents that were not opened yet.
+ */
+export interface CommentThreadLocation {
+	uri: vscode.Uri;
+	range: vscode.Range;
+	isOutdated: boolean;
+	isResolved: boolean;
+	commentIds: string[];
+	thread?: vscode.CommentThread;
+}
+
+export interface CommentThreadLocationProvider {
+	/**
+	 * The locations of all comment threads of the pull request, in the order of its changed files.
+	 */
+	getCommentThreadLocations(): CommentThreadLocation[];
+}
+
+export function toCommentThreadLocation(thread: vscode.CommentThread, isOutdated: boolean): CommentThreadLocation {
+	const firstComment = thread.comments[0] as (vscode.Comment & { _rawComment: Comment }) | undefined;
+	return {
+		uri: thread.resource,
+		range: thread.range,
+		isOutdated,
+		isResolved: !!firstComment && !!firstComment._rawComment.isResolved,
+		commentIds: thread.comments.map(comment => comment.commentId),
+		thread
+	};
+}
+
+/**
+ * Find the location of the thread after, or before, the given line of a document. Navigation wraps around, and starts
+ * from the first or last thread when the document has none.
+ */
+export function findNextCommentThreadLocation(locations: CommentThreadLocation[], uri: vscode.Uri | undefined, line: number, forward: boolean): CommentThreadLocation | undefined {
+	if (!locations.length) {
+		return undefined;
+	}
+
+	const uriString = uri && uri.toString();
+	const indexes = locations.map((_, index) => index).filter(index => locations[index].uri.toString() === uriString);
+	if (!indexes.length) {
+		return forward ? locations[0] : locations[locations.length - 1];
+	}
+
+	const first = indexes[0];
+	const last = indexes[indexes.length - 1];
+	if (forward) {
+		const next = indexes.find(index => locations[index].range.start.line > line);
+		return locations[next !== undefined ? next : (last + 1) % locations.length];
+	}
+
+	const previous = indexes.slice().reverse().find(index => locations[index].range.start.line < line);
+	return locations[previous !== undefined ? previous : (first + locations.length - 1) % locations.length];
+}
+
+export async function revealCommentThreadLocation(location: CommentThreadLocation): Promise<void> {
+	await vscode.window.showTextDocument(location.uri, { selection: new vscode.Range(location.range.start, location.range.start) });
+	if (location.thread) {
+		location.thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+	}
+}
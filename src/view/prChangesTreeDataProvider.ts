@@ -9,18 +9,22 @@ import { DescriptionNode } from './treeNodes/descriptionNode';
 import { TreeNode } from './treeNodes/treeNode';
 import { FilesCategoryNode } from './treeNodes/filesCategoryNode';
 import { CommitsNode } from './treeNodes/commitsCategoryNode';
+import { CommitRangeNode } from './treeNodes/commitRangeNode';
 import { Comment } from '../common/comment';
 import { PullRequestManager } from '../github/pullRequestManager';
 import { PullRequestModel } from '../github/pullRequestModel';
+import { fromFileChangeNodeUri } from '../common/uri';
+import * as ViewedFiles from '../github/viewedFiles';
 
-export class PullRequestChangesTreeDataProvider extends vscode.Disposable implements vscode.TreeDataProvider<TreeNode> {
-	private _onDidChangeTreeData = new vscode.EventEmitter<GitFileChangeNode | DescriptionNode>();
+export class PullRequestChangesTreeDataProvider extends vscode.Disposable implements vscode.TreeDataProvider<TreeNode>, vscode.DecorationProvider {
+	private _onDidChangeTreeData = new vscode.EventEmitter<GitFileChangeNode | DescriptionNode | FilesCategoryNode | CommitRangeNode>();
 	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 	private _disposables: vscode.Disposable[] = [];
 
 	private _localFileChanges: (GitFileChangeNode | RemoteFileChangeNode)[] = [];
 	private _comments: Comment[] = [];
 	private _pullrequest?: PullRequestModel;
+	private _reviewedCommit?: string;
 	private _pullRequestManager: PullRequestManager;
 	private _view: vscode.TreeView<TreeNode>;
 
@@ -31,6 +35,7 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 	private _descriptionNode?: DescriptionNode;
 	private _filesCategoryNode?: FilesCategoryNode;
 	private _commitsCategoryNode?: CommitsNode;
+	private _commitRangeNode?: CommitRangeNode;
 
 	constructor(private _context: vscode.ExtensionContext) {
 		super(() => this.dispose());
@@ -40,6 +45,28 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 			showCollapseAll: true
 		});
 		this._context.subscriptions.push(this._view);
+		this._disposables.push(vscode.window.registerDecorationProvider(this));
+
+		this._disposables.push(ViewedFiles.onDidChange(pullRequest => {
+			if (!this._pullrequest || !this._pullrequest.equals(pullRequest)) {
+				return;
+			}
+
+			this._localFileChanges.forEach(fileChange => {
+				if (fileChange instanceof GitFileChangeNode) {
+					fileChange.updateViewed();
+				}
+			});
+
+			if (this._filesCategoryNode) {
+				this._onDidChangeTreeData.fire(this._filesCategoryNode);
+			}
+
+			if (this._commitRangeNode) {
+				this._commitRangeNode.fileChanges.forEach(fileChange => fileChange.updateViewed());
+				this._onDidChangeTreeData.fire(this._commitRangeNode);
+			}
+		}));
 	}
 
 	refresh() {
@@ -49,10 +76,11 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 		this._onDidChangeTreeData.fire();
 	}
 
-	async showPullRequestFileChanges(pullRequestManager: PullRequestManager, pullrequest: PullRequestModel, fileChanges: (GitFileChangeNode | RemoteFileChangeNode)[], comments: Comment[]) {
+	async showPullRequestFileChanges(pullRequestManager: PullRequestManager, pullrequest: PullRequestModel, fileChanges: (GitFileChangeNode | RemoteFileChangeNode)[], comments: Comment[], reviewedCommit?: string) {
 		this._pullRequestManager = pullRequestManager;
 		this._pullrequest = pullrequest;
 		this._comments = comments;
+		this._reviewedCommit = reviewedCommit;
 
 		await vscode.commands.executeCommand(
 			'setContext',
@@ -67,6 +95,15 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 		this._onDidChangeTreeData.fire();
 	}
 
+	/**
+	 * Show the files changed in a range of commits next to the files changed in the whole pull request,
+	 * or stop showing them.
+	 */
+	showCommitRange(commitRangeNode: CommitRangeNode | undefined) {
+		this._commitRangeNode = commitRangeNode;
+		this._onDidChangeTreeData.fire();
+	}
+
 	async hide() {
 		await vscode.commands.executeCommand(
 			'setContext',
@@ -75,6 +112,22 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 		);
 	}
 
+	_onDidChangeDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[]> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
+	onDidChangeDecorations: vscode.Event<vscode.Uri | vscode.Uri[]> = this._onDidChangeDecorations.event;
+	provideDecoration(uri: vscode.Uri, token: vscode.CancellationToken): vscode.ProviderResult<vscode.DecorationData> {
+		let fileChangeUriParams = fromFileChangeNodeUri(uri);
+		if (fileChangeUriParams && fileChangeUriParams.viewed) {
+			return {
+				bubble: false,
+				title: 'Viewed',
+				letter: '✓',
+				priority: 3
+			};
+		}
+
+		return undefined;
+	}
+
 	getTreeItem(element: TreeNode): vscode.TreeItem | Thenable<vscode.TreeItem> {
 		return element.getTreeItem();
 	}
@@ -126,10 +179,11 @@ export class PullRequestChangesTreeDataProvider extends vscode.Disposable implem
 			if (!this._descriptionNode || !this._filesCategoryNode || !this._commitsCategoryNode) {
 				this._descriptionNode = new DescriptionNode(this, this._pullrequest.title,
 					this._pullrequest.userAvatarUri!, this._pullrequest);
-				this._filesCategoryNode = new FilesCategoryNode(this._view, this._localFileChanges);
+				this._filesCategoryNode = new FilesCategoryNode(this._view, this._localFileChanges, this._reviewedCommit ? 'Changes Since Your Last Review' : undefined);
 				this._commitsCategoryNode = new CommitsNode(this._view, this._pullRequestManager, this._pullrequest, this._comments);
 			}
-			return [ this._descriptionNode, this._filesCategoryNode, this._commitsCategoryNode ];
+			const nodes: TreeNode[] = [ this._descriptionNode, this._filesCategoryNode, this._commitsCategoryNode ];
+			return this._commitRangeNode ? nodes.concat(this._commitRangeNode) : nodes;
 		} else {
 			return await element.getChildren();
 		}
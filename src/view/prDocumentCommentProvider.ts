@@ -7,10 +7,13 @@
 import * as vscode from 'vscode';
 import { fromPRUri } from '../common/uri';
 import { getReactionGroup } from '../github/utils';
+import { CommentThreadLocationProvider, CommentThreadLocation } from './commentThreadNavigation';
+
+type PRDocumentCommentProviderDelegate = vscode.CommentingRangeProvider & vscode.EmptyCommentThreadFactory & vscode.CommentReactionProvider & CommentThreadLocationProvider;
 
 export class PRDocumentCommentProvider implements vscode.CommentingRangeProvider, vscode.EmptyCommentThreadFactory, vscode.CommentReactionProvider, vscode.Disposable {
 	availableReactions: vscode.CommentReaction[] = getReactionGroup();
-	private _prDocumentCommentProviders: {[key: number]: vscode.CommentingRangeProvider & vscode.EmptyCommentThreadFactory & vscode.CommentReactionProvider } = {};
+	private _prDocumentCommentProviders: {[key: number]: PRDocumentCommentProviderDelegate } = {};
 	private _prDocumentCommentThreadMap: {[key: number]: { [key: string]: vscode.CommentThread[] } } = {};
 
 	constructor(
@@ -60,7 +63,12 @@ export class PRDocumentCommentProvider implements vscode.CommentingRangeProvider
 		return toggleReaction(document, comment, reaction);
 	}
 
-	public registerDocumentCommentProvider(prNumber: number, provider: vscode.CommentingRangeProvider & vscode.EmptyCommentThreadFactory & vscode.CommentReactionProvider) {
+	public getCommentThreadLocations(prNumber: number): CommentThreadLocation[] {
+		const provider = this._prDocumentCommentProviders[prNumber];
+		return provider ? provider.getCommentThreadLocations() : [];
+	}
+
+	public registerDocumentCommentProvider(prNumber: number, provider: PRDocumentCommentProviderDelegate) {
 		this._prDocumentCommentProviders[prNumber] = provider;
 		if (!this._prDocumentCommentThreadMap[prNumber]) {
 			this._prDocumentCommentThreadMap[prNumber] = {};
@@ -4,21 +4,48 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { readFile } from 'fs';
+import { promisify } from 'util';
 import { TreeNode } from './treeNodes/treeNode';
 import { PRCategoryActionNode, CategoryTreeNode, PRCategoryActionType } from './treeNodes/categoryNode';
 import { PRType, ITelemetry } from '../github/interface';
-import { fromFileChangeNodeUri } from '../common/uri';
+import { fromFileChangeNodeUri, fromPRNodeUri, toPRNodeUri } from '../common/uri';
 import { getInMemPRContentProvider } from './inMemPRContentProvider';
 import { PullRequestManager, SETTINGS_NAMESPACE, REMOTES_SETTING } from '../github/pullRequestManager';
+import { PRGroupingMode, PR_GROUPING_MODES } from './treeNodes/pullRequestGroupNode';
+import { PRNode } from './treeNodes/pullRequestNode';
+import { PullRequestModel } from '../github/pullRequestModel';
+import * as ReadState from '../github/readState';
+import * as Pins from '../github/pins';
+import Logger from '../common/logger';
 
 interface IQueryInfo {
 	label: string;
 	query: string;
+	groupBy?: PRGroupingMode;
+	/**
+	 * Whether the query is shared through the repository's queries file rather than the settings.
+	 */
+	fromRepository?: boolean;
 }
 
 const QUERIES_SETTING = 'queries';
+const GROUP_BY_SETTING = 'groupBy';
+const POLLING_INTERVAL_SETTING = 'pollingInterval';
+const REPOSITORY_QUERIES_FILE = '.github/vscode-pr-queries.json';
+const OFFLINE_RETRY_INTERVAL = 30 * 1000;
+
+const GROUPING_MODE_LABELS: { [mode: string]: string } = {
+	none: 'None',
+	repository: 'Repository',
+	author: 'Author',
+	label: 'Label',
+	baseBranch: 'Base Branch'
+};
 
 export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<TreeNode>, vscode.DecorationProvider, vscode.Disposable {
+	static ID = 'PullRequestsTreeDataProvider';
 	private _onDidChangeTreeData = new vscode.EventEmitter<TreeNode>();
 	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 	private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
@@ -29,6 +56,16 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 	private _prManager: PullRequestManager;
 	private _initialized: boolean = false;
 	private _queries: IQueryInfo[];
+	private _repositoryQueries: IQueryInfo[] = [];
+	/**
+	 * The content of the repository's queries file that was last reported as invalid.
+	 */
+	private _invalidQueriesContent: string | undefined;
+	private _groupBy: PRGroupingMode;
+	private _pullRequests = new Map<string, PullRequestModel>();
+	private _unreadEventCounts = new Map<string, Promise<number>>();
+	private _pollingTimer: NodeJS.Timer | undefined;
+	private _offlineRetryTimer: NodeJS.Timer | undefined;
 
 	get view(): vscode.TreeView<TreeNode> {
 		return this._view;
@@ -49,6 +86,26 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 			this._onDidChangeTreeData.fire(node);
 		}));
 
+		this._disposables.push(vscode.commands.registerCommand('pr.markAllAsRead', (node: CategoryTreeNode) => {
+			return ReadState.markAsSeen(node.prs);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.pin', (node: PRNode) => {
+			return Pins.pin(node.pullRequestModel);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.unpin', (node: PRNode) => {
+			return Pins.unpin(node.pullRequestModel);
+		}));
+
+		this._disposables.push(Pins.onDidChange(() => {
+			this._onDidChangeTreeData.fire();
+		}));
+
+		this._disposables.push(ReadState.onDidChange(pullRequests => {
+			this._onDidChangeDecorations.fire(pullRequests.map(pullRequest => toPRNodeUri(pullRequest)));
+		}));
+
 		const treeId = vscode.workspace.getConfiguration('githubPullRequests').get<boolean>('showInSCM') ? 'pr:scm' : 'pr:github';
 		this._view = vscode.window.createTreeView(treeId, {
 			treeDataProvider: this,
@@ -73,6 +130,23 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 					return;
 			}
 		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.groupBy', async (node?: CategoryTreeNode) => {
+			const picks = PR_GROUPING_MODES.map(mode => ({ label: GROUPING_MODE_LABELS[mode], mode }));
+			const pick = await vscode.window.showQuickPick(picks, {
+				placeHolder: node ? `Group pull requests in "${node.label}" by` : 'Group pull requests by'
+			});
+
+			if (!pick) {
+				return;
+			}
+
+			if (node) {
+				await this.updateQueryGroupBy(node.label, pick.mode);
+			} else {
+				await vscode.workspace.getConfiguration(SETTINGS_NAMESPACE).update(GROUP_BY_SETTING, pick.mode, vscode.ConfigurationTarget.Global);
+			}
+		}));
 	}
 
 	initialize(prManager: PullRequestManager) {
@@ -83,22 +157,151 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 		this._initialized = true;
 		this._prManager = prManager;
 		this.initializeCategories();
+		this.initializePolling();
 		this.refresh();
 	}
 
 	public updateQueries() {
-		this._queries = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE, this._prManager.repository.rootUri).get<IQueryInfo[]>(QUERIES_SETTING) || [];
+		this.applyQueries();
+		this.loadRepositoryQueries();
+	}
+
+	private applyQueries() {
+		const config = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE, this._prManager.repository.rootUri);
+		this._queries = (config.get<IQueryInfo[]>(QUERIES_SETTING) || []).concat(this._repositoryQueries);
+		this._groupBy = config.get<PRGroupingMode>(GROUP_BY_SETTING) || 'none';
+	}
+
+	/**
+	 * Read the repository's queries file in the background, and show its queries once they changed.
+	 */
+	private async loadRepositoryQueries(): Promise<void> {
+		const queries = await this.getRepositoryQueries();
+		if (JSON.stringify(queries) !== JSON.stringify(this._repositoryQueries)) {
+			this._repositoryQueries = queries;
+			this.applyQueries();
+			this.refresh();
+		}
+	}
+
+	/**
+	 * Read the queries that a team shares in the repository, which use the same format as the queries setting.
+	 */
+	private async getRepositoryQueries(): Promise<IQueryInfo[]> {
+		const file = path.join(this._prManager.repository.rootUri.fsPath, REPOSITORY_QUERIES_FILE);
+		let content: string;
+		try {
+			content = await promisify(readFile)(file, 'utf8');
+		} catch (e) {
+			// The repository doesn't share any queries
+			return [];
+		}
+
+		try {
+			const queries = JSON.parse(content);
+			if (!Array.isArray(queries)) {
+				throw new Error('expected an array of queries');
+			}
+
+			return queries
+				.filter(query => query && typeof query.label === 'string' && typeof query.query === 'string')
+				.map(query => ({ ...query, fromRepository: true }));
+		} catch (e) {
+			Logger.appendLine(`Reading queries from ${file} failed: ${e}`, PullRequestsTreeDataProvider.ID);
+			// The file is read again when another repository is selected, so the same mistake is only shown once
+			if (content !== this._invalidQueriesContent) {
+				this._invalidQueriesContent = content;
+				vscode.window.showWarningMessage(`The pull request queries in ${REPOSITORY_QUERIES_FILE} could not be read: ${e.message}`);
+			}
+			return [];
+		}
+	}
+
+	/**
+	 * Save the grouping mode on the query entry with the given label, writing to the most specific
+	 * scope in which the queries are configured so that the change takes effect.
+	 */
+	private async updateQueryGroupBy(label: string, groupBy: PRGroupingMode) {
+		const config = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE, this._prManager.repository.rootUri);
+		const inspect = config.inspect<IQueryInfo[]>(QUERIES_SETTING);
+		let target = vscode.ConfigurationTarget.Global;
+		if (inspect && inspect.workspaceFolderValue) {
+			target = vscode.ConfigurationTarget.WorkspaceFolder;
+		} else if (inspect && inspect.workspaceValue) {
+			target = vscode.ConfigurationTarget.Workspace;
+		}
+
+		const queries = (config.get<IQueryInfo[]>(QUERIES_SETTING) || []).map(query => query.label === label ? { ...query, groupBy } : query);
+		await config.update(QUERIES_SETTING, queries, target);
 	}
 
 	private initializeCategories() {
 		this.updateQueries();
 
 		this._disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
-			if (e.affectsConfiguration(`${SETTINGS_NAMESPACE}.${QUERIES_SETTING}`)) {
-				this.updateQueries();
+			if (e.affectsConfiguration(`${SETTINGS_NAMESPACE}.${QUERIES_SETTING}`) || e.affectsConfiguration(`${SETTINGS_NAMESPACE}.${GROUP_BY_SETTING}`)) {
+				this.applyQueries();
 				this.refresh();
 			}
 		}));
+
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/${REPOSITORY_QUERIES_FILE}`);
+		const reloadQueries = () => this.loadRepositoryQueries();
+		this._disposables.push(watcher);
+		this._disposables.push(watcher.onDidCreate(reloadQueries));
+		this._disposables.push(watcher.onDidChange(reloadQueries));
+		this._disposables.push(watcher.onDidDelete(reloadQueries));
+	}
+
+	private initializePolling() {
+		this._disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration(`${SETTINGS_NAMESPACE}.${POLLING_INTERVAL_SETTING}`)) {
+				this.schedulePolling();
+			}
+		}));
+
+		// Polling is paused while the window is not focused
+		this._disposables.push(vscode.window.onDidChangeWindowState(_ => this.schedulePolling()));
+		this._disposables.push({ dispose: () => this.stopPolling() });
+
+		this.schedulePolling();
+	}
+
+	private schedulePolling() {
+		this.stopPolling();
+
+		const interval = vscode.workspace.getConfiguration(SETTINGS_NAMESPACE).get<number>(POLLING_INTERVAL_SETTING, 0);
+		if (interval > 0 && vscode.window.state.focused) {
+			this._pollingTimer = setTimeout(async () => {
+				await this.pollForChanges();
+				this.schedulePolling();
+			}, interval * 1000);
+		}
+	}
+
+	private stopPolling() {
+		if (this._pollingTimer) {
+			clearTimeout(this._pollingTimer);
+			this._pollingTimer = undefined;
+		}
+	}
+
+	/**
+	 * Re-render the categories whose pull requests have changed on GitHub. Unchanged categories
+	 * are left alone so that their expansion state and loaded pages are kept.
+	 */
+	private async pollForChanges() {
+		if (!this._prManager || !this._childrenDisposables) {
+			return;
+		}
+
+		const categories = this._childrenDisposables.filter(node => node instanceof CategoryTreeNode) as CategoryTreeNode[];
+		await Promise.all(categories.map(async category => {
+			if (await category.hasChanged()) {
+				Logger.debug(`Pull requests in category ${category.label} changed, refreshing`, PullRequestsTreeDataProvider.ID);
+				this.refresh(category);
+			}
+		}));
 	}
 
 	async refresh(node?: TreeNode) {
@@ -106,9 +309,27 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 	}
 
 	getTreeItem(element: TreeNode): vscode.TreeItem {
+		if (element instanceof PRNode) {
+			this.trackPullRequest(element.pullRequestModel);
+		}
+
 		return element.getTreeItem();
 	}
 
+	/**
+	 * Remember the pull request shown by a tree item so that its unread decoration can be computed,
+	 * and invalidate the decoration if the pull request has been updated since it was last shown.
+	 */
+	private trackPullRequest(pullRequest: PullRequestModel) {
+		const key = ReadState.getPullRequestKey(pullRequest);
+		const previous = this._pullRequests.get(key);
+		this._pullRequests.set(key, pullRequest);
+
+		if (previous && previous.updatedAt !== pullRequest.updatedAt) {
+			this._onDidChangeDecorations.fire(toPRNodeUri(pullRequest));
+		}
+	}
+
 	async getChildren(element?: TreeNode): Promise<TreeNode[]> {
 		if (!this._prManager) {
 			if (!vscode.workspace.workspaceFolders) {
@@ -135,13 +356,26 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 				this._childrenDisposables.forEach(dispose => dispose.dispose());
 			}
 
-			const queryCategories = this._queries.map(queryInfo => new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.Query, queryInfo.label, queryInfo.query));
+			const queryCategories = this._queries.map(queryInfo => {
+				const category = new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.Query, queryInfo.label, queryInfo.query, queryInfo.groupBy || this._groupBy);
+				if (queryInfo.fromRepository) {
+					category.description = 'Repository';
+					category.tooltip = `${queryInfo.query}\nShared in ${REPOSITORY_QUERIES_FILE}`;
+					category.contextValue = 'query:repository';
+				}
+
+				return category;
+			});
 			const result = [
-				new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.LocalPullRequest),
+				new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.LocalPullRequest, undefined, undefined, this._groupBy),
 				...queryCategories,
-				new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.All)
+				new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.All, undefined, undefined, this._groupBy)
 			];
 
+			if (Pins.getPinnedPullRequests().length) {
+				result.unshift(new CategoryTreeNode(this._view, this._prManager, this._telemetry, PRType.Pinned, undefined, undefined, this._groupBy));
+			}
+
 			this._childrenDisposables = result;
 			return Promise.resolve(result);
 		}
@@ -149,7 +383,30 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 			return Promise.resolve([new PRCategoryActionNode(this._view, PRCategoryActionType.Empty)]);
 		}
 
-		return element.getChildren();
+		const children = await element.getChildren();
+		if (element instanceof CategoryTreeNode && element.cachedAt !== undefined) {
+			this.scheduleOfflineRetry();
+		}
+
+		return children;
+	}
+
+	/**
+	 * Fetch the categories that are showing cached pull requests again after a while, so that they are
+	 * updated once GitHub can be reached again.
+	 */
+	private scheduleOfflineRetry() {
+		if (this._offlineRetryTimer) {
+			return;
+		}
+
+		this._offlineRetryTimer = setTimeout(() => {
+			this._offlineRetryTimer = undefined;
+			const categories = this._childrenDisposables.filter(node => node instanceof CategoryTreeNode) as CategoryTreeNode[];
+			categories
+				.filter(category => category.cachedAt !== undefined)
+				.forEach(category => this.refresh(category));
+		}, OFFLINE_RETRY_INTERVAL);
 	}
 
 	async getParent(element: TreeNode): Promise<TreeNode | undefined> {
@@ -159,6 +416,12 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 	_onDidChangeDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[]> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
 	onDidChangeDecorations: vscode.Event<vscode.Uri | vscode.Uri[]> = this._onDidChangeDecorations.event;
 	provideDecoration(uri: vscode.Uri, token: vscode.CancellationToken): vscode.ProviderResult<vscode.DecorationData> {
+		const prNodeUriParams = fromPRNodeUri(uri);
+		if (prNodeUriParams) {
+			const pullRequest = this._pullRequests.get(`${prNodeUriParams.owner}/${prNodeUriParams.repositoryName}#${prNodeUriParams.prNumber}`);
+			return pullRequest && ReadState.isUnread(pullRequest) ? this.provideUnreadDecoration(pullRequest) : undefined;
+		}
+
 		let fileChangeUriParams = fromFileChangeNodeUri(uri);
 		if (fileChangeUriParams && fileChangeUriParams.hasComments) {
 			return {
@@ -172,7 +435,49 @@ export class PullRequestsTreeDataProvider implements vscode.TreeDataProvider<Tre
 		return undefined;
 	}
 
+	private async provideUnreadDecoration(pullRequest: PullRequestModel): Promise<vscode.DecorationData> {
+		let title: string;
+		let letter = '●';
+		// Avoid fetching the timeline of every pull request that has never been opened
+		if (ReadState.getLastSeen(pullRequest) === undefined) {
+			title = 'Not opened yet';
+		} else {
+			const count = await this.getUnreadEventCount(pullRequest);
+			if (count) {
+				title = count === 1 ? '1 new event since last opened' : `${count} new events since last opened`;
+				letter = `${letter}${count > 9 ? '9+' : count}`;
+			} else {
+				title = 'Updated since last opened';
+			}
+		}
+
+		return {
+			bubble: false,
+			title,
+			letter,
+			priority: 3
+		};
+	}
+
+	private getUnreadEventCount(pullRequest: PullRequestModel): Promise<number> {
+		const cacheKey = `${ReadState.getPullRequestKey(pullRequest)}@${pullRequest.updatedAt}@${ReadState.getLastSeen(pullRequest)}`;
+		let count = this._unreadEventCounts.get(cacheKey);
+		if (!count) {
+			count = this._prManager.getTimelineEvents(pullRequest)
+				.then(events => ReadState.countUnreadEvents(pullRequest, events))
+				.catch(_ => 0);
+			this._unreadEventCounts.set(cacheKey, count);
+		}
+
+		return count;
+	}
+
 	dispose() {
+		if (this._offlineRetryTimer) {
+			clearTimeout(this._offlineRetryTimer);
+			this._offlineRetryTimer = undefined;
+		}
+
 		this._disposables.forEach(dispose => dispose.dispose());
 	}
 
@@ -5,19 +5,22 @@
 
 import * as nodePath from 'path';
 import * as vscode from 'vscode';
-import { Comment } from '../common/comment';
-import { getAbsolutePosition, getLastDiffLine, mapCommentsToHead, mapOldPositionToNew, getDiffLineByPosition, getZeroBased, mapHeadLineToDiffHunkPosition } from '../common/diffPositionMapping';
+import { Comment, MultiLineCommentRange } from '../common/comment';
+import { getAbsolutePosition, getLastDiffLine, mapCommentsToHead, mapOldPositionToNew, getDiffLineByPosition, getZeroBased, mapHeadLineToDiffHunkPosition, getMultiLineCommentRange } from '../common/diffPositionMapping';
 import { fromPRUri, fromReviewUri, ReviewUriParams } from '../common/uri';
-import { formatError, groupBy } from '../common/utils';
+import { formatError, groupBy, uniqBy } from '../common/utils';
 import { Repository } from '../api/api';
 import { PullRequestManager } from '../github/pullRequestManager';
 import { GitFileChangeNode, gitFileChangeNodeFilter, RemoteFileChangeNode } from './treeNodes/fileChangeNode';
 import { getCommentingRanges, provideDocumentComments } from './treeNodes/pullRequestNode';
-import { CommentHandler, convertToVSCodeComment, getReactionGroup, parseGraphQLReaction, createVSCodeCommentThread, updateCommentThreadLabel, updateCommentCommands, updateCommentReviewState } from '../github/utils';
+import { CommentHandler, convertToVSCodeComment, getReactionGroup, parseGraphQLReaction, createVSCodeCommentThread, updateCommentThreadLabel, updateCommentCommands, updateCommentReviewState, getCommentThreadRange, getCommentThreadGroup } from '../github/utils';
 import { GitChangeType } from '../common/file';
 import { ReactionGroup } from '../github/graphql';
 import { getAcceptInputCommands, getEditCommand, getDeleteCommand, getDeleteThreadCommand } from '../github/commands';
 import { DiffHunk, DiffChangeType } from '../common/diffHunk';
+import { CommentThreadLocation, CommentThreadLocationProvider, toCommentThreadLocation } from './commentThreadNavigation';
+import { showReviewSubmission } from './reviewSubmission';
+import * as CommentDrafts from '../github/commentDrafts';
 
 function workspaceLocalCommentsToCommentThreads(repository: Repository, fileChange: GitFileChangeNode, fileComments: Comment[], collapsibleState: vscode.CommentThreadCollapsibleState): vscode.CommentThread[] {
 	if (!fileChange) {
@@ -29,7 +32,7 @@ function workspaceLocalCommentsToCommentThreads(repository: Repository, fileChan
 	}
 
 	const ret: vscode.CommentThread[] = [];
-	const sections = groupBy(fileComments, comment => String(comment.position));
+	const sections = groupBy(fileComments, getCommentThreadGroup);
 
 	let command: vscode.Command | undefined = undefined;
 	if (fileChange.status === GitChangeType.DELETE) {
@@ -46,8 +49,7 @@ function workspaceLocalCommentsToCommentThreads(repository: Repository, fileChan
 		const comments = sections[i];
 
 		const firstComment = comments[0];
-		const pos = new vscode.Position(getZeroBased(firstComment.absolutePosition || 0), 0);
-		const range = new vscode.Range(pos, pos);
+		const range = getCommentThreadRange(firstComment, getZeroBased(firstComment.absolutePosition || 0));
 
 		const newPath = nodePath.join(repository.rootUri.path, firstComment.path!).replace(/\\/g, '/');
 		const newUri = repository.rootUri.with({ path: newPath });
@@ -67,19 +69,22 @@ function mapCommentThreadsToHead(diffHunks: DiffHunk[], localDiff: string, comme
 	commentThreads.forEach(thread => {
 		if (thread.comments && thread.comments.length) {
 			let comment = thread.comments[0] as vscode.Comment & { _rawComment: Comment };
+			if (comment._rawComment.relocatedLine !== undefined) {
+				const newPosition = getZeroBased(mapOldPositionToNew(localDiff, comment._rawComment.relocatedLine));
+				thread.range = getCommentThreadRange(comment._rawComment, newPosition);
+				return;
+			}
 
 			const diffLine = getDiffLineByPosition(diffHunks, comment._rawComment.position || comment._rawComment.originalPosition!);
 			if (diffLine) {
 				const positionInPr = diffLine.type === DiffChangeType.Delete ? diffLine.oldLineNumber : diffLine.newLineNumber;
 				const newPosition = getZeroBased(mapOldPositionToNew(localDiff, positionInPr));
-				const range = new vscode.Range(newPosition, 0, newPosition, 0);
-
-				thread.range = range;
+				thread.range = getCommentThreadRange(comment._rawComment, newPosition);
 			}
 		}
 	});
 }
-export class ReviewDocumentCommentProvider implements vscode.Disposable, CommentHandler, vscode.CommentingRangeProvider, vscode.EmptyCommentThreadFactory, vscode.CommentReactionProvider {
+export class ReviewDocumentCommentProvider implements vscode.Disposable, CommentHandler, vscode.CommentingRangeProvider, vscode.EmptyCommentThreadFactory, vscode.CommentReactionProvider, CommentThreadLocationProvider {
 	private _localToDispose: vscode.Disposable[] = [];
 	private _onDidChangeComments = new vscode.EventEmitter<Comment[]>();
 	public onDidChangeComments = this._onDidChangeComments.event;
@@ -96,6 +101,7 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 	private _obsoleteFileChangeCommentThreads: { [key: string]: vscode.CommentThread[] } = {};
 	private _reviewDocumentCommentThreads: { [key: string]: vscode.CommentThread[] } = {};
 	private _prDocumentCommentThreads: { [key: string]: { original?: vscode.CommentThread[], modified?: vscode.CommentThread[] }} = {};
+	private _commitRangeFileChanges: GitFileChangeNode[] = [];
 
 	constructor(
 		private _prManager: PullRequestManager,
@@ -132,8 +138,13 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 
 		gitFileChangeNodeFilter(this._obsoleteFileChanges).forEach(fileChange => {
 			let threads = this.outdatedCommentsToCommentThreads(fileChange, fileChange.comments, vscode.CommentThreadCollapsibleState.Expanded).map(thread => createVSCodeCommentThread(thread, this._commentController!, this._prManager.activePullRequest!, inDraftMode, this));
-			this._obsoleteFileChangeCommentThreads[fileChange.fileName] = threads;
+			// The outdated comments of a file can be shown at several commits
+			this._obsoleteFileChangeCommentThreads[fileChange.fileName] = [...(this._obsoleteFileChangeCommentThreads[fileChange.fileName] || []), ...threads];
 		});
+
+		for (let matchedFile of this._localFileChanges) {
+			this.restoreDrafts(vscode.Uri.file(nodePath.resolve(this._repository.rootUri.fsPath, matchedFile.fileName)), inDraftMode);
+		}
 	}
 
 	async initializeDocumentCommentThreadsAndListeners(): Promise<void> {
@@ -325,15 +336,38 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 
 	// #endregion
 
+	getCommentThreadLocations(): CommentThreadLocation[] {
+		const byLine = (a: CommentThreadLocation, b: CommentThreadLocation) => a.range.start.line - b.range.start.line;
+		const fileNames = uniqBy([...this._localFileChanges, ...this._obsoleteFileChanges].map(fileChange => fileChange.fileName), fileName => fileName);
+
+		const locations: CommentThreadLocation[] = [];
+		fileNames.forEach(fileName => {
+			[false, true].forEach(isOutdated => {
+				const threads = (isOutdated ? this._obsoleteFileChangeCommentThreads : this._workspaceFileChangeCommentThreads)[fileName] || [];
+				locations.push(...threads
+					.filter(thread => thread.comments.length)
+					.map(thread => toCommentThreadLocation(thread, isOutdated))
+					.sort(byLine));
+			});
+		});
+
+		return locations;
+	}
+
 	// #region New Comment Thread
 
 	async createEmptyCommentThread(document: vscode.TextDocument, range: vscode.Range): Promise<void> {
 		const inDraftMode = await this._prManager.inDraftMode(this._prManager.activePullRequest!);
+		this.createEmptyThread(document.uri, range, inDraftMode);
+	}
+
+	private createEmptyThread(uri: vscode.Uri, range: vscode.Range, inDraftMode: boolean): void {
 		// threadIds must be unique, otherwise they will collide when vscode saves pending comment text. Assumes
 		// that only one empty thread can be created per line.
-		const threadId = document.uri.toString() + range.start.line;
-		const thread = this._commentController!.createCommentThread(threadId, document.uri, range, []);
+		const threadId = uri.toString() + range.start.line;
+		const thread = this._commentController!.createCommentThread(threadId, uri, range, []);
 		thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+		CommentDrafts.trackThread(this._prManager.activePullRequest!, this._commentController!, thread);
 
 		const commands = getAcceptInputCommands(thread, inDraftMode, this, this._prManager.activePullRequest!.githubRepository.supportsGraphQl);
 
@@ -343,6 +377,17 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		updateCommentThreadLabel(thread);
 	}
 
+	/**
+	 * Recreate the new comment threads whose text was kept as a draft, for instance when the window was reloaded.
+	 * Their label shows the draft, which is sent when their input box is left empty.
+	 */
+	private restoreDrafts(uri: vscode.Uri, inDraftMode: boolean): void {
+		const drafts = CommentDrafts.getDraftsToRestore(this._prManager.activePullRequest!, uri);
+		for (let threadId of Object.keys(drafts)) {
+			this.createEmptyThread(uri, new vscode.Range(drafts[threadId].startLine, 0, drafts[threadId].endLine, 0), inDraftMode);
+		}
+	}
+
 	private addToCommentThreadCache(thread: vscode.CommentThread): void {
 		const uri = thread.resource;
 		switch (uri.scheme) {
@@ -388,20 +433,32 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		}
 		const headCommitSha = this._prManager.activePullRequest.head.sha;
 
-		// git diff sha -- fileName
-		const contentDiff = await this._repository.diffWith(headCommitSha, matchedFile.fileName);
-		const position = mapHeadLineToDiffHunkPosition(matchedFile.diffHunks, contentDiff, thread.range.start.line + 1, isBase);
+		// git diff sha -- fileName, or the diff to the last commit of the range being reviewed
+		const commitRangeFile = query && this.findMatchedFileChangeForReviewDiffView(this._commitRangeFileChanges, uri);
+		const contentDiff = commitRangeFile
+			? await this.getCommitRangeContentDiff(query!.commit!, matchedFile.fileName)
+			: await this._repository.diffWith(headCommitSha, matchedFile.fileName);
+		// A comment spanning several lines is anchored to its last line
+		const position = mapHeadLineToDiffHunkPosition(matchedFile.diffHunks, contentDiff, thread.range.end.line + 1, isBase);
 
 		if (position < 0) {
 			throw new Error('Comment position cannot be negative');
 		}
 
+		let lines: MultiLineCommentRange | undefined;
+		if (thread.range.start.line !== thread.range.end.line) {
+			const startPosition = mapHeadLineToDiffHunkPosition(matchedFile.diffHunks, contentDiff, thread.range.start.line + 1, isBase);
+			lines = getMultiLineCommentRange(matchedFile.diffHunks, startPosition, position, !!isBase);
+		}
+
 		// there is no thread Id, which means it's a new thread
-		const rawComment = await this._prManager.createComment(this._prManager.activePullRequest!, text, matchedFile.fileName, position);
+		const rawComment = await this._prManager.createComment(this._prManager.activePullRequest!, text, matchedFile.fileName, position, lines);
 		const comment = convertToVSCodeComment(rawComment!, undefined);
 		updateCommentCommands(comment, this._commentController!, thread, this._prManager.activePullRequest!, this);
 
 		thread.comments = [comment];
+		await CommentDrafts.discardDraft(thread);
+		updateCommentThreadLabel(thread);
 		this.addToCommentThreadCache(thread);
 		updateCommentThreadLabel(thread);
 		const inDraftMode = await this._prManager.inDraftMode(this._prManager.activePullRequest!);
@@ -443,9 +500,19 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		} catch (e) { }
 
 		if (query) {
+			const commitRangeFile = this.findMatchedFileChangeForReviewDiffView(this._commitRangeFileChanges, document.uri);
+			if (commitRangeFile) {
+				return this.getCommitRangeCommentingRanges(commitRangeFile, query);
+			}
+
 			const matchedFile = this.findMatchedFileChangeForReviewDiffView(this._localFileChanges, document.uri);
 
 			if (matchedFile) {
+				// Comments are made on the pull request's diff, which the commit last reviewed is not part of
+				if (query.base && matchedFile.reviewedCommit) {
+					return [];
+				}
+
 				const matchingComments = matchedFile.comments;
 				const isBase = query.base;
 				matchingComments.forEach(comment => { comment.absolutePosition = getAbsolutePosition(comment, matchedFile!.diffHunks, isBase); });
@@ -487,6 +554,36 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		return;
 	}
 
+	/**
+	 * In a range of commits, comments can only be made on the lines of the last commit that map to the pull request's diff.
+	 */
+	private async getCommitRangeCommentingRanges(commitRangeFile: GitFileChangeNode, query: ReviewUriParams): Promise<vscode.Range[]> {
+		const matchedFile = gitFileChangeNodeFilter(this._localFileChanges).find(fileChange => fileChange.fileName === commitRangeFile.fileName);
+		if (query.base || !query.commit || !matchedFile) {
+			return [];
+		}
+
+		const contentDiff = await this.getCommitRangeContentDiff(query.commit, matchedFile.fileName);
+		const ranges: vscode.Range[] = [];
+		matchedFile.diffHunks.forEach(diffHunk => {
+			const start = mapOldPositionToNew(contentDiff, diffHunk.newLineNumber);
+			const end = mapOldPositionToNew(contentDiff, diffHunk.newLineNumber + diffHunk.newLength - 1);
+			if (start > 0 && end > 0) {
+				ranges.push(new vscode.Range(start - 1, 0, end - 1, 0));
+			}
+		});
+
+		return ranges;
+	}
+
+	/**
+	 * The diff from the head of the pull request to a commit, used to map the lines of the commit to the pull request's diff.
+	 */
+	private async getCommitRangeContentDiff(commit: string, fileName: string): Promise<string> {
+		const headCommitSha = this._prManager.activePullRequest!.head.sha;
+		return commit === headCommitSha ? '' : this._repository.diffBetween(headCommitSha, commit, fileName);
+	}
+
 	// #endregion
 
 	// #region Helper
@@ -533,8 +630,7 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 				firstComment.absolutePosition = diffLine.newLineNumber;
 			}
 
-			const pos = new vscode.Position(getZeroBased(firstComment.absolutePosition || 0), 0);
-			const range = new vscode.Range(pos, pos);
+			const range = getCommentThreadRange(firstComment, getZeroBased(firstComment.absolutePosition || 0));
 
 			ret.push({
 				threadId: firstComment.id.toString(),
@@ -562,6 +658,10 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		const matchedFile = this.findMatchedFileChangeForReviewDiffView(this._localFileChanges, document.uri);
 
 		if (matchedFile) {
+			if (query.base && matchedFile.reviewedCommit) {
+				return [];
+			}
+
 			const matchingComments = matchedFile.comments;
 			const isBase = query.base;
 			matchingComments.forEach(comment => { comment.absolutePosition = getAbsolutePosition(comment, matchedFile!.diffHunks, isBase); });
@@ -610,7 +710,7 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 				continue;
 			}
 
-			const range = new vscode.Range(new vscode.Position(lineNumber, 0), new vscode.Position(lineNumber, 0));
+			const range = getCommentThreadRange(firstComment, lineNumber);
 
 			ret.push({
 				threadId: String(firstComment.id),
@@ -672,11 +772,13 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 
 	private findMatchedFileByUri(uri: vscode.Uri): GitFileChangeNode | undefined {
 		let fileName: string;
+		let commit: string | undefined;
 		let isOutdated = false;
 		if (uri.scheme === 'review') {
 			const query = fromReviewUri(uri);
 			isOutdated = query.isOutdated;
 			fileName = query.path;
+			commit = isOutdated ? query.commit : undefined;
 		}
 
 		if (uri.scheme === 'file') {
@@ -699,7 +801,9 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		});
 
 		if (matchedFiles && matchedFiles.length) {
-			return matchedFiles[0];
+			// Outdated comments of a file can be shown at several commits, prefer the one of the uri
+			const matchedCommit = commit && matchedFiles.find(fileChange => fromReviewUri(fileChange.filePath).commit === commit);
+			return matchedCommit || matchedFiles[0];
 		}
 	}
 
@@ -728,6 +832,8 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 		if (this.commentController!.inputBox) {
 			this.commentController!.inputBox!.value = '';
 		}
+		await CommentDrafts.discardDraft(thread);
+		updateCommentThreadLabel(thread);
 	}
 
 	public async finishReview(thread: vscode.CommentThread): Promise<void> {
@@ -739,9 +845,12 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 			thread.comments = [...thread.comments, vscodeComment];
 			updateCommentThreadLabel(thread);
 			this.commentController!.inputBox!.value = '';
+			await CommentDrafts.discardDraft(thread);
+			updateCommentThreadLabel(thread);
 		}
 
-		await this._prManager.submitReview(this._prManager.activePullRequest!);
+		const { discardedComments } = await showReviewSubmission(this._prManager, this._prManager.activePullRequest!, this);
+		this.removeComments(discardedComments);
 	}
 
 	async deleteReview(): Promise<void> {
@@ -750,6 +859,10 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 			this.commentController!.inputBox!.value = '';
 		}
 
+		this.removeComments(deletedReviewComments);
+	}
+
+	private removeComments(deletedReviewComments: Comment[]): void {
 		[this._workspaceFileChangeCommentThreads, this._obsoleteFileChangeCommentThreads, this._reviewDocumentCommentThreads].forEach(commentThreadMap => {
 			for (let fileName in commentThreadMap) {
 				let threads: vscode.CommentThread[] = [];
@@ -830,6 +943,8 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 				thread.comments = [...thread.comments, vscodeComment];
 				updateCommentThreadLabel(thread);
 				this.commentController!.inputBox!.value = '';
+				await CommentDrafts.discardDraft(thread);
+				updateCommentThreadLabel(thread);
 			} else {
 				// create new comment thread
 				let input = this.commentController!.inputBox!.value;
@@ -940,6 +1055,10 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 	// #endregion
 
 	// #region Incremental update comments
+	public updateCommitRange(commitRangeFileChanges: GitFileChangeNode[]) {
+		this._commitRangeFileChanges = commitRangeFileChanges;
+	}
+
 	public async update(localFileChanges: GitFileChangeNode[], obsoleteFileChanges: (GitFileChangeNode | RemoteFileChangeNode)[]): Promise<void> {
 		const inDraftMode = await this._prManager.inDraftMode(this._prManager.activePullRequest!);
 		// _workspaceFileChangeCommentThreads
@@ -1084,6 +1203,7 @@ export class ReviewDocumentCommentProvider implements vscode.Disposable, Comment
 	// #endregion
 	public dispose() {
 		if (this._commentController) {
+			CommentDrafts.untrackThreads(this._commentController);
 			this._commentController.dispose();
 		}
 
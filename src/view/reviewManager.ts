@@ -6,25 +6,42 @@
 import * as nodePath from 'path';
 import * as vscode from 'vscode';
 import { parseDiff, parsePatch, DiffHunk } from '../common/diffHunk';
-import { toReviewUri, fromReviewUri, ReviewUriParams, toDiffViewFileUri } from '../common/uri';
-import { groupBy, formatError } from '../common/utils';
+import { toReviewUri, fromReviewUri, ReviewUriParams, toDiffViewFileUri, fromPRUri } from '../common/uri';
+import { groupBy, formatError, uniqBy } from '../common/utils';
 import { Comment } from '../common/comment';
 import { GitChangeType, InMemFileChange, SlimFileChange } from '../common/file';
-import { ITelemetry } from '../github/interface';
+import { ITelemetry, ChecksState } from '../github/interface';
 import { Repository, GitErrorCodes, Branch } from '../api/api';
 import { PullRequestChangesTreeDataProvider } from './prChangesTreeDataProvider';
 import { GitContentProvider } from './gitContentProvider';
 import { DiffChangeType } from '../common/diffHunk';
-import { GitFileChangeNode, RemoteFileChangeNode, gitFileChangeNodeFilter } from './treeNodes/fileChangeNode';
+import { getLastDiffLine, mapOldLineToNew } from '../common/diffPositionMapping';
+import { GitFileChangeNode, RemoteFileChangeNode, InMemFileChangeNode, gitFileChangeNodeFilter } from './treeNodes/fileChangeNode';
 import Logger from '../common/logger';
 import { PullRequestsTreeDataProvider } from './prsTreeDataProvider';
-import { PRNode } from './treeNodes/pullRequestNode';
+import { PRNode, CHECKS_STATE_LABELS, REVIEW_DECISION_LABELS } from './treeNodes/pullRequestNode';
+import { CommitRangeNode } from './treeNodes/commitRangeNode';
 import { PullRequestOverviewPanel } from '../github/pullRequestOverview';
 import { Remote, parseRepositoryRemotes } from '../common/remote';
 import { RemoteQuickPickItem } from './quickpick';
 import { PullRequestManager } from '../github/pullRequestManager';
 import { PullRequestModel } from '../github/pullRequestModel';
+import { PullRequestStash } from '../github/pullRequestGitHelper';
 import { ReviewDocumentCommentProvider } from './reviewDocumentCommentProvider';
+import * as ReadState from '../github/readState';
+import * as ViewedFiles from '../github/viewedFiles';
+import { createSuggestionBody } from '../common/suggestion';
+import { CommentThreadLocation, findNextCommentThreadLocation, revealCommentThreadLocation } from './commentThreadNavigation';
+
+const CHECKS_STATE_STATUS_BAR_ICONS: { [state in ChecksState]: string } = {
+	success: '$(check)',
+	failure: '$(x)',
+	pending: '$(primitive-dot)'
+};
+
+interface PullRequestActionQuickPickItem extends vscode.QuickPickItem {
+	run: (pullRequest: PullRequestModel) => Thenable<unknown>;
+}
 
 export class ReviewManager implements vscode.DecorationProvider {
 	public static ID = 'Review';
@@ -36,12 +53,21 @@ export class ReviewManager implements vscode.DecorationProvider {
 	private _localFileChanges: (GitFileChangeNode)[] = [];
 	private _obsoleteFileChanges: (GitFileChangeNode | RemoteFileChangeNode)[] = [];
 	private _lastCommitSha?: string;
+	/**
+	 * When only the changes since the current user's last review are shown, the commit that was reviewed.
+	 */
+	private _reviewedCommit?: string;
 	private _updateMessageShown: boolean = false;
+	/**
+	 * The commit of the stash that the user was last offered to pop, so that they are not asked again on every update.
+	 */
+	private _stashPromptCommit?: string;
 	private _validateStatusInProgress?: Promise<void>;
 	private _reviewDocumentCommentProvider: ReviewDocumentCommentProvider;
 
 	private _prFileChangesProvider: PullRequestChangesTreeDataProvider | undefined;
 	private _statusBarItem: vscode.StatusBarItem;
+	private _branchStatusBarItem: vscode.StatusBarItem | undefined;
 	private _prNumber?: number;
 	private _previousRepositoryState: {
 		HEAD: Branch | undefined;
@@ -138,6 +164,315 @@ export class ReviewManager implements vscode.DecorationProvider {
 			PullRequestOverviewPanel.refresh();
 			this._prsTreeDataProvider.refresh(prNode);
 		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.showChangesSinceReview', async (prNode?: PRNode) => {
+			const pullRequest = prNode ? prNode.pullRequestModel : this._prManager.activePullRequest;
+			if (!pullRequest) {
+				return;
+			}
+
+			const reviewedCommit = await this.getReviewedCommit(pullRequest);
+			if (!reviewedCommit) {
+				return;
+			}
+
+			if (prNode) {
+				prNode.reviewedCommit = reviewedCommit;
+				return this._prsTreeDataProvider.refresh(prNode);
+			}
+
+			this.setReviewedCommit(reviewedCommit);
+			return this.showFileChanges(pullRequest);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.showAllChanges', async (prNode?: PRNode) => {
+			if (prNode) {
+				prNode.reviewedCommit = undefined;
+				return this._prsTreeDataProvider.refresh(prNode);
+			}
+
+			if (this._prManager.activePullRequest) {
+				this.setReviewedCommit(undefined);
+				return this.showFileChanges(this._prManager.activePullRequest);
+			}
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.reviewCommitRange', () => {
+			return this.reviewCommitRange();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.closeCommitRange', () => {
+			this.showCommitRange(undefined);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.suggestChange', () => {
+			this._telemetry.on('pr.suggestChange');
+			return this.suggestChange();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.nextCommentThread', () => {
+			return this.goToCommentThread(true);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.previousCommentThread', () => {
+			return this.goToCommentThread(false);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.showPullRequestActions', () => {
+			return this.showPullRequestActions();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.pullBranch', () => {
+			return this.pullBranch();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.mergeBaseBranch', () => {
+			return this.mergeBaseBranch();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.updateBranchOnGitHub', () => {
+			return this.updateBranchOnGitHub();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.updateBranchFromStatusBar', () => {
+			return this.pickBranchUpdate();
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.markFileAsViewed', (fileChange: GitFileChangeNode | InMemFileChangeNode) => {
+			return this.setFileViewed(fileChange, true);
+		}));
+
+		this._disposables.push(vscode.commands.registerCommand('pr.unmarkFileAsViewed', (fileChange: GitFileChangeNode | InMemFileChangeNode) => {
+			return this.setFileViewed(fileChange, false);
+		}));
+	}
+
+	/**
+	 * Get the commit on which the current user last reviewed the pull request, telling them when there is none
+	 * or when nothing was pushed since.
+	 */
+	private async getReviewedCommit(pullRequest: PullRequestModel): Promise<string | undefined> {
+		let reviewedCommit: string | undefined;
+		try {
+			reviewedCommit = await this._prManager.getLatestReviewCommit(pullRequest);
+		} catch (e) {
+			vscode.window.showErrorMessage(`Fetching your reviews failed: ${formatError(e)}`);
+			return undefined;
+		}
+
+		if (!reviewedCommit) {
+			vscode.window.showInformationMessage(`You haven't reviewed pull request #${pullRequest.prNumber} yet.`);
+			return undefined;
+		}
+
+		if (reviewedCommit === pullRequest.head.sha) {
+			vscode.window.showInformationMessage(`There are no new commits in pull request #${pullRequest.prNumber} since your last review.`);
+			return undefined;
+		}
+
+		return reviewedCommit;
+	}
+
+	private setReviewedCommit(reviewedCommit: string | undefined) {
+		this._reviewedCommit = reviewedCommit;
+		vscode.commands.executeCommand('setContext', 'github:changesSinceReview', !!reviewedCommit);
+	}
+
+	private async showFileChanges(pullRequest: PullRequestModel): Promise<void> {
+		await this.getPullRequestData(pullRequest);
+		await this.prFileChangesProvider.showPullRequestFileChanges(this._prManager, pullRequest, this._localFileChanges, this._comments, this._reviewedCommit);
+		await this._reviewDocumentCommentProvider.update(this._localFileChanges, this._obsoleteFileChanges);
+	}
+
+	/**
+	 * Start a comment thread on the lines selected in the active editor, with a suggestion to change them as comment.
+	 */
+	private async suggestChange(): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		const { document, selection } = editor;
+		const uri = document.uri;
+		let commentController: vscode.CommentController | undefined;
+		let threadFactory: vscode.EmptyCommentThreadFactory | undefined;
+		if (uri.scheme === 'pr') {
+			const params = fromPRUri(uri);
+			const githubRepository = params && !params.isBase
+				? this._prManager.findRepo(repo => repo.remote.remoteName === params.remoteName)
+				: undefined;
+			if (githubRepository) {
+				commentController = githubRepository.commentsController;
+				threadFactory = githubRepository.commentsProvider;
+			}
+		} else if (uri.scheme === 'file' || (uri.scheme === 'review' && !fromReviewUri(uri).base)) {
+			commentController = this._reviewDocumentCommentProvider && this._reviewDocumentCommentProvider.commentController;
+			threadFactory = this._reviewDocumentCommentProvider;
+		}
+
+		if (!commentController || !threadFactory) {
+			vscode.window.showInformationMessage('Changes can only be suggested on the changed version of a file of a pull request.');
+			return;
+		}
+
+		const lines: string[] = [];
+		for (let line = selection.start.line; line <= selection.end.line; line++) {
+			lines.push(document.lineAt(line).text);
+		}
+
+		const suggestion = createSuggestionBody(lines);
+		await threadFactory.createEmptyCommentThread(document, new vscode.Range(selection.start.line, 0, selection.end.line, 0));
+		if (commentController.inputBox) {
+			commentController.inputBox.value = suggestion;
+		} else {
+			await vscode.env.clipboard.writeText(suggestion);
+			vscode.window.showInformationMessage('The suggestion was copied to the clipboard, paste it in the new comment.');
+		}
+	}
+
+	/**
+	 * Go to the next or previous comment thread of the pull request of the active `pr` document, or else of the
+	 * pull request being reviewed.
+	 */
+	private async goToCommentThread(forward: boolean): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		const uri = editor && editor.document.uri;
+		const params = uri && uri.scheme === 'pr' ? fromPRUri(uri) : undefined;
+
+		let locations: CommentThreadLocation[] = [];
+		if (params) {
+			const githubRepository = this._prManager.findRepo(repo => repo.remote.remoteName === params.remoteName);
+			if (githubRepository && githubRepository.commentsProvider) {
+				locations = githubRepository.commentsProvider.getCommentThreadLocations(params.prNumber);
+			}
+		} else if (this._prManager.activePullRequest && this._reviewDocumentCommentProvider) {
+			locations = this._reviewDocumentCommentProvider.getCommentThreadLocations();
+		}
+
+		if (vscode.workspace.getConfiguration('githubPullRequests').get<boolean>('skipOutdatedAndResolvedThreads')) {
+			locations = locations.filter(l => !l.isOutdated && !l.isResolved);
+		}
+
+		const location = findNextCommentThreadLocation(locations, uri, editor ? editor.selection.active.line : 0, forward);
+		if (!location) {
+			vscode.window.showInformationMessage('There are no comment threads to go to.');
+			return;
+		}
+
+		await revealCommentThreadLocation(location);
+	}
+
+	private async reviewCommitRange(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		if (!pr) {
+			return;
+		}
+
+		const commits = await this._prManager.getPullRequestCommits(pr);
+		const picks = commits.map(commit => ({
+			label: commit.commit.message.split('\n')[0],
+			description: commit.sha.substr(0, 7),
+			commit
+		}));
+
+		const first = await vscode.window.showQuickPick(picks, { placeHolder: 'Select the first commit of the range to review' });
+		if (!first) {
+			return;
+		}
+
+		const last = await vscode.window.showQuickPick(picks.slice(picks.indexOf(first)), { placeHolder: 'Select the last commit of the range to review' });
+		if (!last) {
+			return;
+		}
+
+		const baseSha = first.commit.parents[0].sha;
+		const headSha = last.commit.sha;
+		const commitCount = picks.indexOf(last) - picks.indexOf(first) + 1;
+		const commitRangeNode = new CommitRangeNode(this.prFileChangesProvider.view, baseSha, headSha,
+			`${first.description}..${last.description} (${commitCount} ${commitCount === 1 ? 'commit' : 'commits'})`);
+
+		try {
+			const files = await this._prManager.getCommitRangeChangedFiles(pr, baseSha, headSha);
+			const changes = await parseDiff(files, this._repository, baseSha);
+			commitRangeNode.fileChanges = await this.getCommitRangeChangeNodes(commitRangeNode, pr, changes);
+		} catch (e) {
+			vscode.window.showErrorMessage(`Fetching the changes in the commit range failed: ${formatError(e)}`);
+			return;
+		}
+
+		this.showCommitRange(commitRangeNode);
+	}
+
+	private async getCommitRangeChangeNodes(commitRangeNode: CommitRangeNode, pr: PullRequestModel, changes: (InMemFileChange | SlimFileChange)[]): Promise<GitFileChangeNode[]> {
+		const { baseSha, headSha } = commitRangeNode;
+		const nodes: GitFileChangeNode[] = [];
+
+		for (const change of changes) {
+			let isPartial = false;
+			let diffHunks: DiffHunk[] = [];
+
+			if (change instanceof InMemFileChange) {
+				isPartial = change.isPartial;
+				diffHunks = change.diffHunks;
+			} else {
+				try {
+					const patch = await this._repository.diffBetween(baseSha, headSha, change.fileName);
+					diffHunks = parsePatch(patch);
+				} catch (e) {
+					Logger.appendLine(`Failed to parse patch for commit range: ${e}`);
+				}
+			}
+
+			const filePath = nodePath.resolve(this._repository.rootUri.fsPath, change.fileName).replace(/\\/g, '/');
+			const uri = this._repository.rootUri.with({ path: filePath });
+
+			const fileChange = new GitFileChangeNode(
+				commitRangeNode,
+				pr,
+				change.status,
+				change.fileName,
+				change.blobUrl,
+				toReviewUri(uri, change.fileName, undefined, change.status === GitChangeType.DELETE ? '' : headSha, false, { base: false }),
+				toReviewUri(uri, change.fileName, undefined, change.status === GitChangeType.ADD ? '' : baseSha, false, { base: true }),
+				isPartial,
+				diffHunks,
+				[],
+				headSha,
+				change.blobSha
+			);
+
+			fileChange.command = {
+				title: 'show diff',
+				command: 'pr.openDiffView',
+				arguments: [fileChange]
+			};
+
+			nodes.push(fileChange);
+		}
+
+		return nodes;
+	}
+
+	private showCommitRange(commitRangeNode: CommitRangeNode | undefined) {
+		this.prFileChangesProvider.showCommitRange(commitRangeNode);
+		if (this._reviewDocumentCommentProvider) {
+			this._reviewDocumentCommentProvider.updateCommitRange(commitRangeNode ? commitRangeNode.fileChanges : []);
+		}
+	}
+
+	private async setFileViewed(fileChange: GitFileChangeNode | InMemFileChangeNode, viewed: boolean): Promise<void> {
+		if (!fileChange.blobSha) {
+			return;
+		}
+
+		await ViewedFiles.setViewed(fileChange.pullRequest, fileChange.fileName, fileChange.blobSha, viewed);
+
+		// Files in the changes view are updated when the viewed state changes, those under a pull request in the list are not
+		if (fileChange instanceof InMemFileChangeNode) {
+			fileChange.updateViewed();
+			this._prsTreeDataProvider.refresh(fileChange);
+		}
 	}
 
 	private registerListeners(): void {
@@ -222,6 +557,16 @@ export class ReviewManager implements vscode.DecorationProvider {
 		return this._statusBarItem;
 	}
 
+	get branchStatusBarItem() {
+		if (!this._branchStatusBarItem) {
+			this._branchStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+			this._branchStatusBarItem.command = 'pr.updateBranchFromStatusBar';
+			this._disposables.push(this._branchStatusBarItem);
+		}
+
+		return this._branchStatusBarItem;
+	}
+
 	set repository(repository: Repository) {
 		this._repository = repository;
 		this.updateState();
@@ -262,6 +607,7 @@ export class ReviewManager implements vscode.DecorationProvider {
 
 		let branch = this._repository.state.HEAD;
 		let matchingPullRequestMetadata = await this._prManager.getMatchingPullRequestMetadataForBranch();
+		this.offerToPopStash(branch.name, matchingPullRequestMetadata ? undefined : this._prNumber);
 
 		if (!matchingPullRequestMetadata) {
 			Logger.appendLine(`Review> no matching pull request metadata found for current branch ${this._repository.state.HEAD.name}`);
@@ -272,6 +618,7 @@ export class ReviewManager implements vscode.DecorationProvider {
 		const hasPushedChanges = branch.commit !== this._lastCommitSha && branch.ahead === 0 && branch.behind === 0;
 		if (this._prNumber === matchingPullRequestMetadata.prNumber && !hasPushedChanges) {
 			vscode.commands.executeCommand('pr.refreshList');
+			this.updateBranchStatus();
 			return;
 		}
 
@@ -298,20 +645,135 @@ export class ReviewManager implements vscode.DecorationProvider {
 
 		this._prManager.activePullRequest = pr;
 		this._lastCommitSha = pr.head.sha;
+		ReadState.markAsSeen([pr]);
 
 		await this.getPullRequestData(pr);
-		await this.prFileChangesProvider.showPullRequestFileChanges(this._prManager, pr, this._localFileChanges, this._comments);
+		await this.prFileChangesProvider.showPullRequestFileChanges(this._prManager, pr, this._localFileChanges, this._comments, this._reviewedCommit);
 
 		this._onDidChangeDecorations.fire();
 		Logger.appendLine(`Review> register comments provider`);
 		await this.registerCommentProvider();
 
-		this.statusBarItem.text = '$(git-branch) Pull Request #' + this._prNumber;
-		this.statusBarItem.command = 'pr.openDescription';
 		Logger.appendLine(`Review> display pull request status bar indicator and refresh pull request tree view.`);
+		this.updateStatusBarItem(pr);
 		this.statusBarItem.show();
+		await this.updatePullRequestStatus(pr);
 		vscode.commands.executeCommand('pr.refreshList');
 		this._validateStatusInProgress = undefined;
+
+		this.updateBranchStatus();
+		this._prManager.fetchBaseBranch(pr).then(() => this.updateBranchStatus(), e => {
+			Logger.appendLine(`Review> fetching the base branch failed: ${formatError(e)}`, ReviewManager.ID);
+		});
+	}
+
+	/**
+	 * Show how many commits the branch is ahead and behind of its upstream, and behind the base of the pull request.
+	 */
+	private async updateBranchStatus(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		const branch = this._repository.state.HEAD;
+		if (!pr || !branch) {
+			this.branchStatusBarItem.hide();
+			return;
+		}
+
+		let base: { ahead: number, behind: number } | undefined;
+		try {
+			base = await this._prManager.getAheadBehindBase(pr);
+		} catch (e) {
+			// The base branch was not fetched yet
+			base = undefined;
+		}
+
+		if (this._prManager.activePullRequest !== pr) {
+			return;
+		}
+
+		const ahead = branch.ahead || 0;
+		const behind = branch.behind || 0;
+		const tooltip = [`${ahead} commit${ahead === 1 ? '' : 's'} to push, ${behind} commit${behind === 1 ? '' : 's'} to pull`];
+		let text = `$(arrow-down)${behind} $(arrow-up)${ahead}`;
+		if (base) {
+			text += ` $(git-merge)${base.behind}`;
+			tooltip.push(`${base.behind} commit${base.behind === 1 ? '' : 's'} behind ${pr.base.ref}`);
+		}
+
+		this.branchStatusBarItem.text = text;
+		this.branchStatusBarItem.tooltip = tooltip.join('\n');
+		this.branchStatusBarItem.show();
+	}
+
+	private async pullBranch(): Promise<void> {
+		try {
+			await this._repository.pull();
+		} catch (e) {
+			await this.showMergeError(e, 'Pulling the pull request branch');
+		}
+	}
+
+	private async mergeBaseBranch(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		if (!pr) {
+			return;
+		}
+
+		try {
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.SourceControl,
+				title: `Merging ${pr.base.ref} into ${pr.head.ref}`
+			}, () => this._prManager.mergeBaseBranch(pr));
+		} catch (e) {
+			await this.showMergeError(e, `Merging ${pr.base.ref}`);
+		}
+		await this._repository.status();
+	}
+
+	private async updateBranchOnGitHub(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		if (!pr) {
+			return;
+		}
+
+		try {
+			await this._prManager.updateBranch(pr);
+			vscode.window.showInformationMessage(`GitHub is merging ${pr.base.ref} into ${pr.head.ref}. Pull the branch once it is done.`);
+		} catch (e) {
+			vscode.window.showErrorMessage(`Updating the branch on GitHub failed, merge ${pr.base.ref} locally to resolve conflicts: ${formatError(e)}`);
+		}
+	}
+
+	/**
+	 * When a merge stopped because of conflicts, point to the Source Control view where they are listed.
+	 */
+	private async showMergeError(e: any, action: string): Promise<void> {
+		await this._repository.status();
+		if (!this._repository.state.mergeChanges.length) {
+			vscode.window.showErrorMessage(`${action} failed: ${formatError(e)}`);
+			return;
+		}
+
+		const showConflicts = await vscode.window.showWarningMessage(`${action} resulted in conflicts. Resolve them and commit the merge.`, 'Show Conflicts');
+		if (showConflicts) {
+			await vscode.commands.executeCommand('workbench.view.scm');
+		}
+	}
+
+	private async pickBranchUpdate(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		if (!pr) {
+			return;
+		}
+
+		const picks: (vscode.QuickPickItem & { command: string })[] = [
+			{ label: 'Pull', description: 'Pull the commits pushed to the pull request branch', command: 'pr.pullBranch' },
+			{ label: `Merge ${pr.base.ref}`, description: 'Merge the base branch into the local branch', command: 'pr.mergeBaseBranch' },
+			{ label: 'Update Branch on GitHub', description: 'Let GitHub merge the base branch into the pull request branch', command: 'pr.updateBranchOnGitHub' }
+		];
+		const pick = await vscode.window.showQuickPick(picks, { placeHolder: `Update the branch of pull request #${pr.prNumber}` });
+		if (pick) {
+			await vscode.commands.executeCommand(pick.command);
+		}
 	}
 
 	private async updateComments(): Promise<void> {
@@ -347,15 +809,131 @@ export class ReviewManager implements vscode.DecorationProvider {
 
 		await this.getPullRequestData(pr);
 		await this._reviewDocumentCommentProvider.update(this._localFileChanges, this._obsoleteFileChanges);
+		await this.updatePullRequestStatus(pr);
 
 		return Promise.resolve(void 0);
 	}
 
+	/**
+	 * Fetch the check status and review decision of the pull request, and show them in the status bar.
+	 */
+	private async updatePullRequestStatus(pr: PullRequestModel): Promise<void> {
+		await pr.githubRepository.getPullRequestStatuses([pr]);
+		if (this._prManager.activePullRequest && this._prManager.activePullRequest.prNumber === pr.prNumber) {
+			this._prManager.activePullRequest.checksState = pr.checksState;
+			this._prManager.activePullRequest.reviewDecision = pr.reviewDecision;
+			this.updateStatusBarItem(this._prManager.activePullRequest);
+		}
+	}
+
+	private updateStatusBarItem(pr: PullRequestModel): void {
+		// Whether a thread is resolved is only known through GraphQL
+		const unresolvedThreads = pr.githubRepository.supportsGraphQl
+			? uniqBy(this._comments.filter(comment => comment.reviewThreadId && comment.position && !comment.isResolved), comment => comment.reviewThreadId!).length
+			: 0;
+		let text = `$(git-branch) Pull Request #${pr.prNumber}`;
+		const tooltip = [`#${pr.prNumber}: ${pr.title}`];
+
+		if (pr.reviewDecision) {
+			text += ` · ${REVIEW_DECISION_LABELS[pr.reviewDecision]}`;
+			tooltip.push(`Review: ${REVIEW_DECISION_LABELS[pr.reviewDecision]}`);
+		}
+
+		if (pr.checksState) {
+			text += ` ${CHECKS_STATE_STATUS_BAR_ICONS[pr.checksState]}`;
+			tooltip.push(`Checks: ${CHECKS_STATE_LABELS[pr.checksState]}`);
+		}
+
+		if (unresolvedThreads) {
+			text += ` $(comment-discussion) ${unresolvedThreads}`;
+			tooltip.push(`${unresolvedThreads} unresolved conversation${unresolvedThreads === 1 ? '' : 's'}`);
+		}
+
+		this.statusBarItem.text = text;
+		this.statusBarItem.tooltip = tooltip.join('\n');
+		this.statusBarItem.command = 'pr.showPullRequestActions';
+	}
+
+	private async showPullRequestActions(): Promise<void> {
+		const pr = this._prManager.activePullRequest;
+		if (!pr) {
+			return;
+		}
+
+		const actions: PullRequestActionQuickPickItem[] = [
+			{ label: '$(file-text) Open Description', run: () => vscode.commands.executeCommand('pr.openDescription') },
+			{ label: '$(globe) Open on GitHub', run: () => vscode.commands.executeCommand('pr.openPullRequestInGitHub') },
+			{ label: '$(check) Approve', run: pullRequest => this.submitReviewFromStatusBar(pullRequest, true) },
+			{ label: '$(request-changes) Request Changes', run: pullRequest => this.submitReviewFromStatusBar(pullRequest, false) },
+			{ label: '$(git-merge) Merge', run: () => vscode.commands.executeCommand('pr.merge') },
+			{ label: '$(sync) Refresh', run: () => this.refreshActivePullRequest() },
+			{ label: '$(git-branch) Switch to Default Branch', run: pullRequest => this.checkoutDefaultBranch(pullRequest) },
+			{ label: '$(clippy) Copy Link', run: pullRequest => vscode.env.clipboard.writeText(pullRequest.html_url) }
+		];
+
+		const action = await vscode.window.showQuickPick(actions, { placeHolder: `#${pr.prNumber}: ${pr.title}` });
+		if (action) {
+			await action.run(pr);
+		}
+	}
+
+	private async submitReviewFromStatusBar(pr: PullRequestModel, approve: boolean): Promise<void> {
+		const message = await vscode.window.showInputBox({
+			prompt: approve ? 'Comment to approve the pull request with (optional)' : 'Changes to request',
+			ignoreFocusOut: true
+		});
+		if (message === undefined || (!approve && !message)) {
+			return;
+		}
+
+		try {
+			if (approve) {
+				await this._prManager.approvePullRequest(pr, message || undefined);
+			} else {
+				await this._prManager.requestChanges(pr, message);
+			}
+		} catch (e) {
+			vscode.window.showErrorMessage(`Submitting the review failed: ${formatError(e)}`);
+			return;
+		}
+
+		await this.refreshActivePullRequest();
+	}
+
+	private async refreshActivePullRequest(): Promise<void> {
+		PullRequestOverviewPanel.refresh();
+		await this.updateComments();
+	}
+
+	private async checkoutDefaultBranch(pr: PullRequestModel): Promise<void> {
+		try {
+			const defaultBranch = await this._prManager.getPullRequestRepositoryDefaultBranch(pr);
+			await this._repository.checkout(defaultBranch);
+		} catch (e) {
+			if (e.gitErrorCode === GitErrorCodes.LocalChangesOverwritten || e.gitErrorCode === GitErrorCodes.DirtyWorkTree) {
+				vscode.window.showErrorMessage('Your local changes would be overwritten by checkout, please commit your changes or stash them before you switch branches');
+				return;
+			}
+
+			vscode.window.showErrorMessage(`Switching to the default branch failed: ${formatError(e)}`);
+		}
+	}
+
 	private async getLocalChangeNodes(pr: PullRequestModel, contentChanges: (InMemFileChange | SlimFileChange)[], activeComments: Comment[]): Promise<GitFileChangeNode[]> {
 		let nodes: GitFileChangeNode[] = [];
 		const mergeBase = pr.mergeBase || pr.base.sha;
 		const headSha = pr.head.sha;
 
+		if (this._reviewedCommit) {
+			try {
+				const changedFiles = await this._prManager.getFilesChangedSince(pr, this._reviewedCommit, contentChanges.map(change => change.fileName));
+				contentChanges = contentChanges.filter(change => changedFiles.indexOf(change.fileName) !== -1);
+			} catch (e) {
+				vscode.window.showErrorMessage(`Showing the changes since your last review failed, the commit you reviewed may not be available locally: ${formatError(e)}`);
+				this.setReviewedCommit(undefined);
+			}
+		}
+
 		for (let i = 0; i < contentChanges.length; i++) {
 			let change = contentChanges[i];
 			let isPartial = false;
@@ -385,12 +963,14 @@ export class ReviewManager implements vscode.DecorationProvider {
 				change.status === GitChangeType.DELETE ?
 					toReviewUri(uri, undefined, undefined, '', false, { base: false }) :
 					toDiffViewFileUri(uri, change.fileName, undefined, pr.head.sha, false, { base: false }),
-				toReviewUri(uri, change.fileName, undefined, change.status === GitChangeType.ADD ? '' : mergeBase, false, { base: true }),
+				toReviewUri(uri, change.fileName, undefined, this._reviewedCommit || (change.status === GitChangeType.ADD ? '' : mergeBase), false, { base: true }),
 				isPartial,
 				diffHunks,
 				activeComments.filter(comment => comment.path === change.fileName),
-				headSha
+				headSha,
+				change.blobSha
 			);
+			changedItem.reviewedCommit = this._reviewedCommit;
 			nodes.push(changedItem);
 		}
 
@@ -407,7 +987,17 @@ export class ReviewManager implements vscode.DecorationProvider {
 			const mergeBase = pr.mergeBase || pr.base.sha;
 
 			const contentChanges = await parseDiff(data, this._repository, mergeBase!);
-			this._localFileChanges = await this.getLocalChangeNodes(pr, contentChanges, activeComments);
+
+			// Outdated comments whose line still exists are shown with the comments on the head of the pull request
+			await this.relocateOutdatedComments(pr, outdatedComments);
+			const relocatedComments = outdatedComments.filter(comment => comment.relocatedLine !== undefined);
+			this._localFileChanges = await this.getLocalChangeNodes(pr, contentChanges, activeComments.concat(relocatedComments));
+
+			// The relocated comments of files that aren't shown stay at the commit they were made on
+			relocatedComments
+				.filter(comment => !this._localFileChanges.some(fileChange => fileChange.fileName === comment.path))
+				.forEach(comment => comment.relocatedLine = undefined);
+			outdatedComments = outdatedComments.filter(comment => comment.relocatedLine === undefined);
 
 			let commitsGroup = groupBy(outdatedComments, comment => comment.originalCommitId!);
 			this._obsoleteFileChanges = [];
@@ -416,32 +1006,7 @@ export class ReviewManager implements vscode.DecorationProvider {
 				let commentsForFile = groupBy(commentsForCommit, comment => comment.path!);
 
 				for (let fileName in commentsForFile) {
-
-					let diffHunks: DiffHunk[] = [];
-					try {
-						const patch = await this._repository.diffBetween(pr.base.sha, commit, fileName);
-						diffHunks = parsePatch(patch);
-					} catch (e) {
-						Logger.appendLine(`Failed to parse patch for outdated comments: ${e}`);
-					}
-
-					const oldComments = commentsForFile[fileName];
-					const uri = vscode.Uri.parse(nodePath.join(`commit~${commit.substr(0, 8)}`, fileName));
-					const obsoleteFileChange = new GitFileChangeNode(
-						this.prFileChangesProvider.view,
-						pr,
-						GitChangeType.MODIFY,
-						fileName,
-						undefined,
-						toReviewUri(uri, fileName, undefined, oldComments[0].originalCommitId!, true, { base: false }),
-						toReviewUri(uri, fileName, undefined, oldComments[0].originalCommitId!, true, { base: true }),
-						false,
-						diffHunks,
-						oldComments,
-						commit
-					);
-
-					this._obsoleteFileChanges.push(obsoleteFileChange);
+					this._obsoleteFileChanges.push(await this.createObsoleteFileChange(pr, commit, fileName, commentsForFile[fileName]));
 				}
 			}
 
@@ -452,6 +1017,62 @@ export class ReviewManager implements vscode.DecorationProvider {
 
 	}
 
+	private async createObsoleteFileChange(pr: PullRequestModel, commit: string, fileName: string, comments: Comment[]): Promise<GitFileChangeNode> {
+		let diffHunks: DiffHunk[] = [];
+		try {
+			const patch = await this._repository.diffBetween(pr.base.sha, commit, fileName);
+			diffHunks = parsePatch(patch);
+		} catch (e) {
+			Logger.appendLine(`Failed to parse patch for outdated comments: ${e}`);
+		}
+
+		const uri = vscode.Uri.parse(nodePath.join(`commit~${commit.substr(0, 8)}`, fileName));
+		return new GitFileChangeNode(
+			this.prFileChangesProvider.view,
+			pr,
+			GitChangeType.MODIFY,
+			fileName,
+			undefined,
+			toReviewUri(uri, fileName, undefined, commit, true, { base: false }),
+			toReviewUri(uri, fileName, undefined, commit, true, { base: true }),
+			false,
+			diffHunks,
+			comments,
+			commit
+		);
+	}
+
+	/**
+	 * Follow the lines outdated comments were made on through the later commits of the pull request, and set
+	 * `relocatedLine` on the comments whose line still exists in its head.
+	 */
+	private async relocateOutdatedComments(pr: PullRequestModel, outdatedComments: Comment[]): Promise<void> {
+		const commentsForFile = groupBy(outdatedComments, comment => `${comment.originalCommitId}:${comment.path}`);
+		for (let key in commentsForFile) {
+			const comments = commentsForFile[key];
+			const { originalCommitId, path } = comments[0];
+			if (!originalCommitId || !path) {
+				continue;
+			}
+
+			let patch: string;
+			try {
+				patch = await this._repository.diffBetween(originalCommitId, pr.head.sha, path);
+			} catch (e) {
+				Logger.appendLine(`Failed to relocate outdated comments: ${e}`);
+				continue;
+			}
+
+			comments.forEach(comment => {
+				// The diff hunk of a comment ends with the line it was made on, which is a deleted line for comments on the base
+				const diffLine = getLastDiffLine(comment.diffHunk);
+				if (diffLine && diffLine.type !== DiffChangeType.Delete) {
+					comment.relocatedLine = mapOldLineToNew(patch, diffLine.newLineNumber);
+				}
+			});
+		}
+	}
+
 	_onDidChangeDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[]> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
 	onDidChangeDecorations: vscode.Event<vscode.Uri | vscode.Uri[]> = this._onDidChangeDecorations.event;
 	provideDecoration(uri: vscode.Uri, token: vscode.CancellationToken): vscode.ProviderResult<vscode.DecorationData> {
@@ -509,7 +1130,19 @@ export class ReviewManager implements vscode.DecorationProvider {
 			if (e.gitErrorCode) {
 				// for known git errors, we should provide actions for users to continue.
 				if (e.gitErrorCode === GitErrorCodes.LocalChangesOverwritten || e.gitErrorCode === GitErrorCodes.DirtyWorkTree) {
-					vscode.window.showErrorMessage('Your local changes would be overwritten by checkout, please commit your changes or stash them before you switch branches');
+					const isDetached = !this._repository.state.HEAD || !this._repository.state.HEAD.name;
+					const stash = await vscode.window.showErrorMessage('Your local changes would be overwritten by checkout, please commit your changes or stash them before you switch branches', ...(isDetached ? [] : ['Stash and Checkout']));
+					if (stash) {
+						try {
+							await this._prManager.stashForPullRequest(pr);
+						} catch (stashError) {
+							vscode.window.showErrorMessage(`Stashing your local changes failed: ${formatError(stashError)}`);
+							return;
+						}
+
+						this._telemetry.on('pr.checkout.stash');
+						return this.switch(pr);
+					}
 					return;
 				}
 			}
@@ -537,6 +1170,43 @@ export class ReviewManager implements vscode.DecorationProvider {
 		}
 	}
 
+	/**
+	 * Offer to pop the changes that were stashed to check out a pull request, when coming back to the branch they
+	 * were stashed on, or when leaving the review of that pull request for another branch.
+	 */
+	private async offerToPopStash(branchName: string | undefined, leftPullRequestNumber: number | undefined): Promise<void> {
+		let stashes: PullRequestStash[];
+		try {
+			stashes = await this._prManager.getPullRequestStashes();
+		} catch (e) {
+			Logger.appendLine(`Review> reading stashes failed: ${formatError(e)}`, ReviewManager.ID);
+			return;
+		}
+
+		const stash = stashes.find(s => s.branchName === branchName)
+			|| stashes.find(s => s.metadata.prNumber === leftPullRequestNumber);
+		if (!stash || stash.commit === this._stashPromptCommit) {
+			return;
+		}
+
+		this._stashPromptCommit = stash.commit;
+		const onBranch = stash.branchName === branchName ? '' : ` from ${stash.branchName}`;
+		const action = await vscode.window.showInformationMessage(
+			`Your local changes${onBranch} were stashed to check out pull request #${stash.metadata.prNumber}. Do you want to restore them?`,
+			'Pop Stash',
+			'Forget Stash');
+
+		try {
+			if (action === 'Pop Stash') {
+				await this._prManager.popPullRequestStash(stash);
+			} else if (action === 'Forget Stash') {
+				await this._prManager.forgetPullRequestStash(stash);
+			}
+		} catch (e) {
+			vscode.window.showErrorMessage(`Restoring your stashed changes failed: ${formatError(e)}`);
+		}
+	}
+
 	public async publishBranch(branch: Branch): Promise<Branch | undefined> {
 		const potentialTargetRemotes = this._prManager.getGitHubRemotes();
 		const selectedRemote = (await this.getRemote(potentialTargetRemotes, `Pick a remote to publish the branch '${branch.name}' to:`))!.remote;
@@ -721,9 +1391,14 @@ export class ReviewManager implements vscode.DecorationProvider {
 
 	private clear(quitReviewMode: boolean) {
 		this._updateMessageShown = false;
+		this.setReviewedCommit(undefined);
 
 		this._localToDispose.forEach(disposeable => disposeable.dispose());
 
+		if (this._prFileChangesProvider) {
+			this.prFileChangesProvider.showCommitRange(undefined);
+		}
+
 		if (quitReviewMode) {
 			this._prNumber = undefined;
 			this._prManager.activePullRequest = undefined;
@@ -732,6 +1407,10 @@ export class ReviewManager implements vscode.DecorationProvider {
 				this._statusBarItem.hide();
 			}
 
+			if (this._branchStatusBarItem) {
+				this._branchStatusBarItem.hide();
+			}
+
 			if (this._prFileChangesProvider) {
 				this.prFileChangesProvider.hide();
 			}
@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { Comment } from '../common/comment';
+import { groupBy, formatError } from '../common/utils';
+import { ReviewEvent } from '../github/interface';
+import { PullRequestManager } from '../github/pullRequestManager';
+import { PullRequestModel } from '../github/pullRequestModel';
+import { CommentThreadLocationProvider, revealCommentThreadLocation } from './commentThreadNavigation';
+
+export interface ReviewSubmissionResult {
+	submitted: boolean;
+	discardedComments: Comment[];
+}
+
+interface ReviewSubmissionQuickPickItem extends vscode.QuickPickItem {
+	event?: ReviewEvent;
+	editSummary?: boolean;
+	fileComments?: Comment[];
+	comment?: Comment;
+}
+
+const REVIEW_EVENTS: ReviewSubmissionQuickPickItem[] = [
+	{ label: '$(comment-discussion) Comment', description: 'Submit general feedback without explicit approval', event: ReviewEvent.Comment },
+	{ label: '$(check) Approve', description: 'Submit feedback and approve merging these changes', event: ReviewEvent.Approve },
+	{ label: '$(request-changes) Request Changes', description: 'Submit feedback that must be addressed before merging', event: ReviewEvent.RequestChanges }
+];
+
+function getFirstLine(body: string): string {
+	const firstLine = body.trim().split(/\r?\n/)[0];
+	return firstLine.length > 80 ? `${firstLine.substr(0, 79)}…` : firstLine;
+}
+
+function getSubmissionPicks(comments: Comment[], summary: string): ReviewSubmissionQuickPickItem[] {
+	const picks: ReviewSubmissionQuickPickItem[] = [
+		...REVIEW_EVENTS,
+		{ label: '$(pencil) Edit Summary', description: summary ? getFirstLine(summary) : 'No summary', editSummary: true }
+	];
+
+	const commentsByFile = groupBy(comments, comment => comment.path || '');
+	Object.keys(commentsByFile).sort().forEach(fileName => {
+		const fileComments = commentsByFile[fileName];
+		picks.push({
+			label: `$(file) ${fileName}`,
+			description: fileComments.length === 1 ? '1 pending comment' : `${fileComments.length} pending comments`,
+			fileComments
+		});
+
+		picks.push(...fileComments.map(comment => ({
+			label: `$(comment) ${getFirstLine(comment.body)}`,
+			description: comment.line ? `Line ${comment.line}` : undefined,
+			comment
+		})));
+	});
+
+	return picks;
+}
+
+async function goToComment(locationProvider: CommentThreadLocationProvider, comment: Comment): Promise<void> {
+	const locations = locationProvider.getCommentThreadLocations();
+	const location = locations.find(l => l.commentIds.indexOf(comment.id.toString()) !== -1);
+	if (location) {
+		await revealCommentThreadLocation(location);
+	} else {
+		vscode.window.showInformationMessage(`The comment on ${comment.path} is not shown in any document.`);
+	}
+}
+
+/**
+ * Let the user review the pending comments of their review, grouped by file, before submitting it. Comments can be
+ * visited and discarded, and the summary and kind of the review chosen. The comments that were discarded are
+ * returned, whether the review was submitted or not.
+ */
+export async function showReviewSubmission(prManager: PullRequestManager, pullRequest: PullRequestModel, locationProvider: CommentThreadLocationProvider): Promise<ReviewSubmissionResult> {
+	let comments = await prManager.getPendingReviewComments(pullRequest);
+	const discardedComments: Comment[] = [];
+	let summary = '';
+
+	while (true) {
+		const pick = await vscode.window.showQuickPick(getSubmissionPicks(comments, summary), {
+			placeHolder: `Submit your review of pull request #${pullRequest.prNumber} with ${comments.length} pending comment${comments.length === 1 ? '' : 's'}`,
+			ignoreFocusOut: true
+		});
+
+		if (!pick) {
+			return { submitted: false, discardedComments };
+		}
+
+		if (pick.event) {
+			await prManager.submitReview(pullRequest, pick.event, summary || undefined);
+			return { submitted: true, discardedComments };
+		}
+
+		if (pick.editSummary) {
+			const value = await vscode.window.showInputBox({ prompt: 'Summary of the review', value: summary, ignoreFocusOut: true });
+			summary = value !== undefined ? value : summary;
+			continue;
+		}
+
+		if (pick.fileComments) {
+			await goToComment(locationProvider, pick.fileComments[0]);
+			continue;
+		}
+
+		if (pick.comment) {
+			const comment = pick.comment;
+			const action = await vscode.window.showQuickPick(['Go to Comment', 'Discard Comment'], { placeHolder: getFirstLine(comment.body) });
+			if (action === 'Go to Comment') {
+				await goToComment(locationProvider, comment);
+			} else if (action === 'Discard Comment') {
+				try {
+					await prManager.deleteReviewComment(pullRequest, comment.id.toString());
+					comments = comments.filter(c => c.id !== comment.id);
+					discardedComments.push(comment);
+				} catch (e) {
+					vscode.window.showErrorMessage(`Failed to discard the comment: ${formatError(e)}`);
+				}
+			}
+		}
+	}
+}
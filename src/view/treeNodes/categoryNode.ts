@@ -4,24 +4,30 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
-import { PRType, ITelemetry } from '../../github/interface';
+import { PRType, ITelemetry, IPageInformation } from '../../github/interface';
 import { PRNode } from './pullRequestNode';
 import { TreeNode } from './treeNode';
-import { formatError } from '../../common/utils';
+import { formatError, isNetworkError, dateFromNow } from '../../common/utils';
 import { AuthenticationError } from '../../common/authentication';
 import { PullRequestManager } from '../../github/pullRequestManager';
 import { PullRequestModel } from '../../github/pullRequestModel';
+import { sortPullRequestsByUpdatedAt } from '../../github/utils';
+import { PRGroupingMode, PRGroupTreeNode, groupPullRequests } from './pullRequestGroupNode';
+import * as Pins from '../../github/pins';
+import * as CommentDrafts from '../../github/commentDrafts';
+import Logger from '../../common/logger';
 
 export enum PRCategoryActionType {
 	Empty,
 	More,
-	TryOtherRemotes,
 	Login,
 	NoRemotes,
 	NoGitRepositories,
 	NoOpenFolder,
 	NoMatchingRemotes,
-	ConfigureRemotes
+	ConfigureRemotes,
+	UnknownQualifiers,
+	Cached
 }
 
 export class PRCategoryActionNode extends TreeNode implements vscode.TreeItem {
@@ -31,7 +37,7 @@ export class PRCategoryActionNode extends TreeNode implements vscode.TreeItem {
 	public type: PRCategoryActionType;
 	public command?: vscode.Command;
 
-	constructor(parent: TreeNode | vscode.TreeView<TreeNode>, type: PRCategoryActionType, node?: CategoryTreeNode) {
+	constructor(parent: TreeNode | vscode.TreeView<TreeNode>, type: PRCategoryActionType, node?: CategoryTreeNode, unknownQualifiers?: string[]) {
 		super();
 		this.parent = parent;
 		this.type = type;
@@ -50,16 +56,6 @@ export class PRCategoryActionNode extends TreeNode implements vscode.TreeItem {
 					]
 				};
 				break;
-			case PRCategoryActionType.TryOtherRemotes:
-				this.label = 'Continue fetching from other remotes';
-				this.command = {
-					title: 'Load more',
-					command: 'pr.loadMore',
-					arguments: [
-						node
-					]
-				};
-				break;
 			case PRCategoryActionType.Login:
 				this.label = 'Sign in';
 				this.command = {
@@ -88,6 +84,12 @@ export class PRCategoryActionNode extends TreeNode implements vscode.TreeItem {
 					arguments: []
 				};
 				break;
+			case PRCategoryActionType.Cached:
+				this.label = `Offline, showing pull requests cached ${dateFromNow(new Date(node!.cachedAt!))}`;
+				break;
+			case PRCategoryActionType.UnknownQualifiers:
+				this.label = `⚠ Unknown qualifiers in query: ${unknownQualifiers!.join(', ')}`;
+				break;
 			default:
 				break;
 		}
@@ -98,17 +100,19 @@ export class PRCategoryActionNode extends TreeNode implements vscode.TreeItem {
 	}
 }
 
-interface PageInformation {
-	pullRequestPage: number;
-	hasMorePages: boolean;
-}
-
 export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 	public readonly label: string;
 	public collapsibleState: vscode.TreeItemCollapsibleState;
+	public contextValue?: string;
+	public description?: string;
+	public tooltip?: string;
 	public prs: PullRequestModel[];
 	public fetchNextPage: boolean = false;
-	public repositoryPageInformation: Map<string, PageInformation> = new Map<string, PageInformation>();
+	/**
+	 * When GitHub couldn't be reached, the time at which the pull requests shown were cached.
+	 */
+	public cachedAt?: number;
+	public repositoryPageInformation: Map<string, IPageInformation> = new Map<string, IPageInformation>();
 
 	constructor(
 		public parent: TreeNode | vscode.TreeView<TreeNode>,
@@ -116,7 +120,8 @@ export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 		private _telemetry: ITelemetry,
 		private _type: PRType,
 		_categoryLabel?: string,
-		private _categoryQuery?: string
+		private _categoryQuery?: string,
+		private _groupBy: PRGroupingMode = 'none'
 	) {
 		super();
 
@@ -125,12 +130,19 @@ export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 		switch (_type) {
 			case PRType.All:
 				this.label = 'All';
+				this.contextValue = 'category';
 				break;
 			case PRType.Query:
 				this.label = _categoryLabel!;
+				this.contextValue = 'query';
 				break;
 			case PRType.LocalPullRequest:
 				this.label = 'Local Pull Request Branches';
+				this.contextValue = 'category';
+				break;
+			case PRType.Pinned:
+				this.label = 'Pinned';
+				this.contextValue = 'category';
 				break;
 			default:
 				break;
@@ -139,23 +151,37 @@ export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 
 	async getChildren(): Promise<TreeNode[]> {
 		let hasMorePages = false;
-		let hasUnsearchedRepositories = false;
 		let needLogin = false;
+		let fetched = false;
+		this.cachedAt = undefined;
 		if (this._type === PRType.LocalPullRequest) {
 			try {
 				this.prs = await this._prManager.getLocalPullRequests();
+				fetched = true;
 				this._telemetry.on('prList.expand.local');
 			} catch (e) {
-				vscode.window.showErrorMessage(`Fetching local pull requests failed: ${formatError(e)}`);
-				needLogin = e instanceof AuthenticationError;
+				if (!this.loadFromCache(e)) {
+					vscode.window.showErrorMessage(`Fetching local pull requests failed: ${formatError(e)}`);
+					needLogin = e instanceof AuthenticationError;
+				}
+			}
+		} else if (this._type === PRType.Pinned) {
+			try {
+				this.prs = await this._prManager.getPinnedPullRequests(Pins.getPinnedPullRequests());
+				fetched = true;
+			} catch (e) {
+				if (!this.loadFromCache(e)) {
+					vscode.window.showErrorMessage(`Fetching pinned pull requests failed: ${formatError(e)}`);
+					needLogin = e instanceof AuthenticationError;
+				}
 			}
 		} else {
 			if (!this.fetchNextPage) {
 				try {
-					const response = await this._prManager.getPullRequests(this._type, { fetchNextPage: false }, this._categoryQuery);
+					const response = await this._prManager.getPullRequests(this._type, { fetchNextPage: false, repositoryPageInformation: this.repositoryPageInformation }, this._categoryQuery);
 					this.prs = response.pullRequests;
 					hasMorePages = response.hasMorePages;
-					hasUnsearchedRepositories = response.hasUnsearchedRepositories;
+					fetched = true;
 
 					switch (this._type) {
 						case PRType.All:
@@ -164,15 +190,17 @@ export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 					}
 
 				} catch (e) {
-					vscode.window.showErrorMessage(`Fetching pull requests failed: ${formatError(e)}`);
-					needLogin = e instanceof AuthenticationError;
+					if (!this.loadFromCache(e)) {
+						vscode.window.showErrorMessage(`Fetching pull requests failed: ${formatError(e)}`);
+						needLogin = e instanceof AuthenticationError;
+					}
 				}
 			} else {
 				try {
-					const response = await this._prManager.getPullRequests(this._type, { fetchNextPage: true });
-					this.prs = this.prs.concat(response.pullRequests);
+					const response = await this._prManager.getPullRequests(this._type, { fetchNextPage: true, repositoryPageInformation: this.repositoryPageInformation }, this._categoryQuery);
+					this.prs = sortPullRequestsByUpdatedAt(this.prs.concat(response.pullRequests));
 					hasMorePages = response.hasMorePages;
-					hasUnsearchedRepositories = response.hasUnsearchedRepositories;
+					fetched = true;
 				} catch (e) {
 					vscode.window.showErrorMessage(`Fetching pull requests failed: ${formatError(e)}`);
 					needLogin = e instanceof AuthenticationError;
@@ -182,25 +210,74 @@ export class CategoryTreeNode extends TreeNode implements vscode.TreeItem {
 			}
 		}
 
+		if (fetched) {
+			this._prManager.cachePullRequests(this._type, this._categoryQuery, this.prs);
+			CommentDrafts.forgetClosedPullRequests(this.prs).catch(e => Logger.appendLine(`Forgetting comment drafts failed: ${formatError(e)}`));
+		}
+
+		const warnings: TreeNode[] = [];
+		if (this.cachedAt !== undefined) {
+			warnings.push(new PRCategoryActionNode(this, PRCategoryActionType.Cached, this));
+		}
+
+		if (this._type === PRType.Query) {
+			const { unknownQualifiers } = this._prManager.parseCategoryQuery(this._categoryQuery || '');
+			if (unknownQualifiers.length) {
+				warnings.push(new PRCategoryActionNode(this, PRCategoryActionType.UnknownQualifiers, undefined, unknownQualifiers));
+			}
+		}
+
 		if (this.prs && this.prs.length) {
-			let nodes: TreeNode[] = this.prs.map(prItem => new PRNode(this, this._prManager, prItem, this._type === PRType.LocalPullRequest));
+			const isLocal = this._type === PRType.LocalPullRequest;
+			let nodes: TreeNode[];
+			if (this._groupBy === 'none') {
+				nodes = this.prs.map(prItem => new PRNode(this, this._prManager, prItem, isLocal));
+			} else {
+				nodes = [];
+				groupPullRequests(this.prs, this._groupBy).forEach((pullRequests, groupLabel) => {
+					nodes.push(new PRGroupTreeNode(this, this._prManager, groupLabel, pullRequests, isLocal));
+				});
+			}
 			if (hasMorePages) {
 				nodes.push(new PRCategoryActionNode(this, PRCategoryActionType.More, this));
-			} else if (hasUnsearchedRepositories) {
-				nodes.push(new PRCategoryActionNode(this, PRCategoryActionType.TryOtherRemotes, this));
 			}
 
+			nodes = warnings.concat(nodes);
 			this.childrenDisposables = nodes;
 			return nodes;
 		} else {
 			let category = needLogin ? PRCategoryActionType.Login : PRCategoryActionType.Empty;
-			let result = [new PRCategoryActionNode(this, category)];
+			let result = warnings.concat(new PRCategoryActionNode(this, category));
+			if (hasMorePages) {
+				result.push(new PRCategoryActionNode(this, PRCategoryActionType.More, this));
+			}
 
 			this.childrenDisposables = result;
 			return result;
 		}
 	}
 
+	/**
+	 * Show the pull requests cached for this category instead of an error when GitHub can't be reached.
+	 */
+	private loadFromCache(e: any): boolean {
+		const cached = isNetworkError(e) ? this._prManager.getCachedPullRequests(this._type, this._categoryQuery) : undefined;
+		if (!cached) {
+			return false;
+		}
+
+		this.prs = cached.pullRequests;
+		this.cachedAt = cached.cachedAt;
+		return true;
+	}
+
+	/**
+	 * Whether the pull requests shown in this category have changed on GitHub since they were fetched.
+	 */
+	async hasChanged(): Promise<boolean> {
+		return this._prManager.hasPullRequestsChanged(this._type, this._categoryQuery);
+	}
+
 	getTreeItem(): vscode.TreeItem {
 		return this;
 	}
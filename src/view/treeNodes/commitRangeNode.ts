@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { TreeNode } from './treeNode';
+import { GitFileChangeNode } from './fileChangeNode';
+
+/**
+ * The files changed in a range of commits of the pull request, combined in a single tree.
+ */
+export class CommitRangeNode extends TreeNode implements vscode.TreeItem {
+	public label: string = 'Commit Range';
+	public description: string;
+	public collapsibleState: vscode.TreeItemCollapsibleState;
+	public contextValue: string = 'commitRange';
+	public fileChanges: GitFileChangeNode[] = [];
+
+	constructor(
+		public parent: TreeNode | vscode.TreeView<TreeNode>,
+		public readonly baseSha: string,
+		public readonly headSha: string,
+		description: string
+	) {
+		super();
+		this.description = description;
+		this.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+	}
+
+	getTreeItem(): vscode.TreeItem {
+		return this;
+	}
+
+	async getChildren(): Promise<TreeNode[]> {
+		return this.fileChanges;
+	}
+}
@@ -13,6 +13,7 @@ import { PullRequestModel } from '../../github/pullRequestModel';
 export class CommitsNode extends TreeNode implements vscode.TreeItem {
 	public label: string = 'Commits';
 	public collapsibleState: vscode.TreeItemCollapsibleState;
+	public contextValue: string = 'commits';
 	private _prManager: PullRequestManager;
 	private _pr: PullRequestModel;
 	private _comments: Comment[];
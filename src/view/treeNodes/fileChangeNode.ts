@@ -12,6 +12,7 @@ import { Comment } from '../../common/comment';
 import { getDiffLineByPosition, getZeroBased } from '../../common/diffPositionMapping';
 import { toResourceUri } from '../../common/uri';
 import { PullRequestModel } from '../../github/pullRequestModel';
+import * as ViewedFiles from '../../github/viewedFiles';
 
 /**
  * File change node whose content can not be resolved locally and we direct users to GitHub.
@@ -62,6 +63,7 @@ export class InMemFileChangeNode extends TreeNode implements vscode.TreeItem {
 	public contextValue: string;
 	public command: vscode.Command;
 	public opts: vscode.TextDocumentShowOptions;
+	public viewed: boolean = false;
 
 	constructor(
 		public readonly parent: TreeNode | vscode.TreeView<TreeNode>,
@@ -76,7 +78,8 @@ export class InMemFileChangeNode extends TreeNode implements vscode.TreeItem {
 		public readonly patch: string,
 		public readonly diffHunks: DiffHunk[],
 		public comments: Comment[],
-		public readonly sha?: string
+		public readonly sha?: string,
+		public readonly blobSha?: string
 	) {
 		super();
 		this.contextValue = 'filechange';
@@ -87,10 +90,20 @@ export class InMemFileChangeNode extends TreeNode implements vscode.TreeItem {
 			preserveFocus: true
 		};
 		this.update(this.comments);
+		this.updateViewed();
+	}
+
+	/**
+	 * Read whether the file was marked as viewed, for instance after it was toggled.
+	 */
+	updateViewed() {
+		this.viewed = !!this.blobSha && ViewedFiles.isViewed(this.pullRequest, this.fileName, this.blobSha);
+		this.contextValue = this.blobSha ? `filechange:${this.viewed ? 'viewed' : 'unviewed'}` : 'filechange';
+		this.resourceUri = toResourceUri(this.filePath, this.comments.length > 0, this.status, this.viewed);
 	}
 
 	update(comments: Comment[]) {
-		this.resourceUri = toResourceUri(this.filePath, comments.length > 0, this.status);
+		this.resourceUri = toResourceUri(this.filePath, comments.length > 0, this.status, this.viewed);
 
 		if (comments && comments.length) {
 			let sortedActiveComments = comments.filter(comment => comment.position).sort((a, b) => {
@@ -145,6 +158,12 @@ export class GitFileChangeNode extends TreeNode implements vscode.TreeItem {
 	public contextValue: string;
 	public command: vscode.Command;
 	public opts: vscode.TextDocumentShowOptions;
+	public viewed: boolean = false;
+	/**
+	 * When only the changes since the current user's last review are shown, the commit that was reviewed,
+	 * which is the left side of the diff instead of the base of the pull request.
+	 */
+	public reviewedCommit?: string;
 
 	constructor(
 		public readonly parent: TreeNode | vscode.TreeView<TreeNode>,
@@ -158,13 +177,13 @@ export class GitFileChangeNode extends TreeNode implements vscode.TreeItem {
 		public readonly diffHunks: DiffHunk[],
 		public comments: Comment[] = [],
 		public readonly sha?: string,
+		public readonly blobSha?: string
 	) {
 		super();
-		this.contextValue = `filechange:${GitChangeType[status]}`;
 		this.label = path.basename(fileName);
 		this.description = path.relative('.', path.dirname(fileName));
 		this.iconPath = vscode.ThemeIcon.File;
-		this.resourceUri = toResourceUri(this.filePath, comments.length > 0, status);
+		this.updateViewed();
 
 		this.opts = {
 			preserveFocus: true
@@ -195,6 +214,10 @@ export class GitFileChangeNode extends TreeNode implements vscode.TreeItem {
 	}
 
 	getCommentPosition(comment: Comment) {
+		if (comment.relocatedLine !== undefined) {
+			return Math.max(getZeroBased(comment.relocatedLine), 0);
+		}
+
 		let diffLine = getDiffLineByPosition(this.diffHunks, comment.position === undefined ? comment.originalPosition! : comment.position!);
 
 		if (diffLine) {
@@ -206,6 +229,15 @@ export class GitFileChangeNode extends TreeNode implements vscode.TreeItem {
 		return 0;
 	}
 
+	/**
+	 * Read whether the file was marked as viewed, for instance after it was toggled.
+	 */
+	updateViewed() {
+		this.viewed = !!this.blobSha && ViewedFiles.isViewed(this.pullRequest, this.fileName, this.blobSha);
+		this.contextValue = `filechange:${GitChangeType[this.status]}` + (this.blobSha ? `:${this.viewed ? 'viewed' : 'unviewed'}` : '');
+		this.resourceUri = toResourceUri(this.filePath, this.comments.length > 0, this.status, this.viewed);
+	}
+
 	getTreeItem(): vscode.TreeItem {
 		return this;
 	}
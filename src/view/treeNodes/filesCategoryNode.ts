@@ -9,14 +9,23 @@ import { TreeNode } from './treeNode';
 
 export class FilesCategoryNode extends TreeNode implements vscode.TreeItem {
 	public label: string = 'Files';
+	public description?: string;
 	public collapsibleState: vscode.TreeItemCollapsibleState;
 
-	constructor(public parent: TreeNode | vscode.TreeView<TreeNode>, private _fileChanges: (GitFileChangeNode | RemoteFileChangeNode)[]) {
+	constructor(public parent: TreeNode | vscode.TreeView<TreeNode>, private _fileChanges: (GitFileChangeNode | RemoteFileChangeNode)[], label?: string) {
 		super();
+		if (label) {
+			this.label = label;
+		}
 		this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
 	}
 
 	getTreeItem(): vscode.TreeItem {
+		// Only files whose blob sha is known can be marked as viewed
+		const viewableFiles = this._fileChanges.filter(fileChange => fileChange instanceof GitFileChangeNode && fileChange.blobSha) as GitFileChangeNode[];
+		this.description = viewableFiles.length
+			? `${viewableFiles.filter(fileChange => fileChange.viewed).length} of ${viewableFiles.length} files viewed`
+			: undefined;
 		return this;
 	}
 
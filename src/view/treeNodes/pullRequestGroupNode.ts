@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { PRNode } from './pullRequestNode';
+import { TreeNode } from './treeNode';
+import { PullRequestManager } from '../../github/pullRequestManager';
+import { PullRequestModel } from '../../github/pullRequestModel';
+
+export type PRGroupingMode = 'none' | 'repository' | 'author' | 'label' | 'baseBranch';
+
+export const PR_GROUPING_MODES: PRGroupingMode[] = ['none', 'repository', 'author', 'label', 'baseBranch'];
+
+function getGroupLabel(pullRequest: PullRequestModel, mode: PRGroupingMode): string {
+	switch (mode) {
+		case 'repository':
+			return `${pullRequest.remote.owner}/${pullRequest.remote.repositoryName}`;
+		case 'author':
+			return pullRequest.author.login;
+		case 'label':
+			const labels = pullRequest.prItem.labels;
+			return labels && labels.length ? labels[0].name : 'No label';
+		case 'baseBranch':
+			return pullRequest.base.ref;
+		default:
+			return '';
+	}
+}
+
+/**
+ * Split pull requests into groups for the given mode, keeping groups in the order in which
+ * their first pull request appears.
+ */
+export function groupPullRequests(pullRequests: PullRequestModel[], mode: PRGroupingMode): Map<string, PullRequestModel[]> {
+	const groups = new Map<string, PullRequestModel[]>();
+	for (const pullRequest of pullRequests) {
+		const label = getGroupLabel(pullRequest, mode);
+		const group = groups.get(label);
+		if (group) {
+			group.push(pullRequest);
+		} else {
+			groups.set(label, [pullRequest]);
+		}
+	}
+
+	return groups;
+}
+
+export class PRGroupTreeNode extends TreeNode implements vscode.TreeItem {
+	public collapsibleState: vscode.TreeItemCollapsibleState;
+	public description: string;
+
+	constructor(
+		public parent: TreeNode | vscode.TreeView<TreeNode>,
+		private _prManager: PullRequestManager,
+		public readonly label: string,
+		private _pullRequests: PullRequestModel[],
+		private _isLocal: boolean
+	) {
+		super();
+		this.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+		this.description = `${_pullRequests.length}`;
+	}
+
+	getTreeItem(): vscode.TreeItem {
+		return this;
+	}
+
+	async getChildren(): Promise<TreeNode[]> {
+		if (this.childrenDisposables && this.childrenDisposables.length) {
+			this.childrenDisposables.forEach(dp => dp.dispose());
+		}
+
+		const nodes = this._pullRequests.map(pullRequest => new PRNode(this, this._prManager, pullRequest, this._isLocal));
+		this.childrenDisposables = nodes;
+		return nodes;
+	}
+}
@@ -6,21 +6,44 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { parseDiff, getModifiedContentFromDiffHunk, DiffChangeType, DiffHunk } from '../../common/diffHunk';
-import { getZeroBased, getAbsolutePosition, getPositionInDiff, mapHeadLineToDiffHunkPosition } from '../../common/diffPositionMapping';
+import { getZeroBased, getAbsolutePosition, getPositionInDiff, mapHeadLineToDiffHunkPosition, getMultiLineCommentRange } from '../../common/diffPositionMapping';
 import { SlimFileChange, GitChangeType } from '../../common/file';
 import Logger from '../../common/logger';
 import { Resource } from '../../common/resources';
-import { fromPRUri, toPRUri } from '../../common/uri';
-import { groupBy, uniqBy } from '../../common/utils';
+import { fromPRUri, toPRUri, toPRNodeUri, toReviewUri } from '../../common/uri';
+import { groupBy, uniqBy, formatError } from '../../common/utils';
 import { DescriptionNode } from './descriptionNode';
 import { RemoteFileChangeNode, InMemFileChangeNode, GitFileChangeNode } from './fileChangeNode';
 import { TreeNode } from './treeNode';
 import { getInMemPRContentProvider } from '../inMemPRContentProvider';
-import { Comment } from '../../common/comment';
+import { Comment, MultiLineCommentRange } from '../../common/comment';
 import { PullRequestManager } from '../../github/pullRequestManager';
 import { PullRequestModel } from '../../github/pullRequestModel';
-import { CommentHandler, convertToVSCodeComment, createVSCodeCommentThread, getReactionGroup, parseGraphQLReaction, updateCommentThreadLabel, updateCommentCommands, updateCommentReviewState, updateCommentReactions } from '../../github/utils';
+import { CommentHandler, convertToVSCodeComment, createVSCodeCommentThread, getReactionGroup, parseGraphQLReaction, updateCommentThreadLabel, updateCommentCommands, updateCommentReviewState, updateCommentReactions, getCommentThreadRange, getCommentThreadGroup } from '../../github/utils';
 import { getAcceptInputCommands, getDeleteThreadCommand } from '../../github/commands';
+import { ChecksState, ReviewDecision } from '../../github/interface';
+import * as Pins from '../../github/pins';
+import { CommentThreadLocation, CommentThreadLocationProvider, toCommentThreadLocation } from '../commentThreadNavigation';
+import { showReviewSubmission } from '../reviewSubmission';
+import * as CommentDrafts from '../../github/commentDrafts';
+
+const CHECKS_STATE_ICONS: { [state in ChecksState]: string } = {
+	success: '✓',
+	failure: '✗',
+	pending: '●'
+};
+
+export const CHECKS_STATE_LABELS: { [state in ChecksState]: string } = {
+	success: 'All checks have passed',
+	failure: 'Some checks were not successful',
+	pending: 'Some checks haven\'t completed yet'
+};
+
+export const REVIEW_DECISION_LABELS: { [decision in ReviewDecision]: string } = {
+	approved: 'Approved',
+	changesRequested: 'Changes requested',
+	reviewRequired: 'Review required'
+};
 
 export function provideDocumentComments(
 	uri: vscode.Uri,
@@ -45,7 +68,7 @@ export function provideDocumentComments(
 		};
 	}
 
-	let sections = groupBy(matchingComments, comment => String(comment.position));
+	let sections = groupBy(matchingComments, getCommentThreadGroup);
 	let threads: vscode.CommentThread[] = [];
 
 	for (let i in sections) {
@@ -60,8 +83,7 @@ export function provideDocumentComments(
 			continue;
 		}
 
-		const pos = new vscode.Position(getZeroBased(commentAbsolutePosition), 0);
-		const range = new vscode.Range(pos, pos);
+		const range = getCommentThreadRange(firstComment, getZeroBased(commentAbsolutePosition));
 
 		threads.push({
 			threadId: firstComment.id.toString(),
@@ -135,7 +157,7 @@ function commentsEditedInThread(oldComments: vscode.Comment[], newComments: vsco
 	});
 }
 
-export class PRNode extends TreeNode implements CommentHandler, vscode.CommentingRangeProvider, vscode.EmptyCommentThreadFactory, vscode.CommentReactionProvider {
+export class PRNode extends TreeNode implements CommentHandler, vscode.CommentingRangeProvider, vscode.EmptyCommentThreadFactory, vscode.CommentReactionProvider, CommentThreadLocationProvider {
 	static ID = 'PRNode';
 	private _fileChanges: (RemoteFileChangeNode | InMemFileChangeNode)[];
 	private _commentController?: vscode.CommentController;
@@ -160,6 +182,11 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 
 	public availableReactions: vscode.CommentReaction[] = getReactionGroup();
 
+	/**
+	 * When only the changes since the current user's last review are shown, the commit that was reviewed.
+	 */
+	public reviewedCommit?: string;
+
 	constructor(
 		public parent: TreeNode | vscode.TreeView<TreeNode>,
 		private _prManager: PullRequestManager,
@@ -185,7 +212,17 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 				return [];
 			}
 
-			const rawChanges = await parseDiff(data, this._prManager.repository, mergeBase);
+			let rawChanges = await parseDiff(data, this._prManager.repository, mergeBase);
+			if (this.reviewedCommit) {
+				try {
+					const changedFiles = await this._prManager.getFilesChangedSince(this.pullRequestModel, this.reviewedCommit, rawChanges.map(change => change.fileName));
+					rawChanges = rawChanges.filter(change => changedFiles.indexOf(change.fileName) !== -1);
+				} catch (e) {
+					vscode.window.showErrorMessage(`Showing the changes since your last review failed, the commit you reviewed may no longer be part of the pull request: ${formatError(e)}`);
+					this.reviewedCommit = undefined;
+				}
+			}
+
 			let fileChanges = rawChanges.map(change => {
 				if (change instanceof SlimFileChange) {
 					return new RemoteFileChangeNode(
@@ -198,6 +235,7 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 				}
 
 				const headCommit = this.pullRequestModel.head.sha;
+				const fileUri = vscode.Uri.file(path.resolve(this._prManager.repository.rootUri.fsPath, change.fileName));
 				let changedItem = new InMemFileChangeNode(
 					this,
 					this.pullRequestModel,
@@ -205,12 +243,17 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 					change.fileName,
 					change.previousFileName,
 					change.blobUrl,
-					toPRUri(vscode.Uri.file(path.resolve(this._prManager.repository.rootUri.fsPath, change.fileName)), this.pullRequestModel, change.baseCommit, headCommit, change.fileName, false, change.status),
-					toPRUri(vscode.Uri.file(path.resolve(this._prManager.repository.rootUri.fsPath, change.fileName)), this.pullRequestModel, change.baseCommit, headCommit, change.fileName, true, change.status),
+					toPRUri(fileUri, this.pullRequestModel, change.baseCommit, headCommit, change.fileName, false, change.status),
+					// Compare with the commit last reviewed, whose content comes from the local repository
+					this.reviewedCommit
+						? toReviewUri(fileUri, change.fileName, undefined, this.reviewedCommit, false, { base: true })
+						: toPRUri(fileUri, this.pullRequestModel, change.baseCommit, headCommit, change.fileName, true, change.status),
 					change.isPartial,
 					change.patch,
 					change.diffHunks,
 					comments.filter(comment => comment.path === change.fileName && comment.position !== null),
+					undefined,
+					change.blobSha
 				);
 
 				return changedItem;
@@ -347,6 +390,9 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 				this.updateFileChangeCommentThreads(oldCommentThreads, [...(newLeftCommentThreads ? newLeftCommentThreads.threads : []), ...(newRightSideCommentThreads ? newRightSideCommentThreads.threads : [])], fileChange, inDraftMode);
 			});
 
+			for (let editor of currentPRDocuments) {
+				this.restoreDrafts(editor.document.uri, inDraftMode);
+			}
 		}
 	}
 
@@ -388,6 +434,8 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 			prNumber,
 			author,
 			isDraft,
+			checksState,
+			reviewDecision,
 		} = this.pullRequestModel;
 
 		const {
@@ -398,15 +446,32 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 		const tooltipPrefix = (currentBranchIsForThisPR ? 'Current Branch * ' : '');
 		const formattedPRNumber = prNumber.toString();
 		const label = `${labelPrefix}${title}`;
-		const tooltip = `${tooltipPrefix}${title} (#${formattedPRNumber}) by @${login}`;
-		const description = `#${formattedPRNumber}${isDraft ? '(draft)' : ''} by @${login}`;
+		let tooltip = `${tooltipPrefix}${title} (#${formattedPRNumber}) by @${login}`;
+		let description = `#${formattedPRNumber}${isDraft ? '(draft)' : ''} by @${login}`;
+
+		if (!this.pullRequestModel.isOpen) {
+			const state = this.pullRequestModel.isMerged ? 'Merged' : 'Closed';
+			description += ` · ${state}`;
+			tooltip += `\nState: ${state}`;
+		}
+
+		if (checksState) {
+			description += ` ${CHECKS_STATE_ICONS[checksState]}`;
+			tooltip += `\nChecks: ${CHECKS_STATE_LABELS[checksState]}`;
+		}
+
+		if (reviewDecision) {
+			description += ` · ${REVIEW_DECISION_LABELS[reviewDecision]}`;
+			tooltip += `\nReview: ${REVIEW_DECISION_LABELS[reviewDecision]}`;
+		}
 
 		return {
 			label,
 			tooltip,
 			description,
 			collapsibleState: 1,
-			contextValue: 'pullrequest' + (this._isLocal ? ':local' : '') + (currentBranchIsForThisPR ? ':active' : ':nonactive'),
+			contextValue: 'pullrequest' + (this._isLocal ? ':local' : '') + (currentBranchIsForThisPR ? ':active' : ':nonactive') + (Pins.isPinned(this.pullRequestModel) ? ':pinned' : '') + (this.reviewedCommit ? ':sinceReview' : ''),
+			resourceUri: toPRNodeUri(this.pullRequestModel),
 			iconPath: this.pullRequestModel.userAvatarUri
 				? this.pullRequestModel.userAvatarUri
 				: { light: Resource.icons.light.Avatar, dark: Resource.icons.dark.Avatar }
@@ -452,13 +517,45 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 
 		// #endregion
 
+	getCommentThreadLocations(): CommentThreadLocation[] {
+		const byLine = (a: CommentThreadLocation, b: CommentThreadLocation) => a.range.start.line - b.range.start.line;
+		const locations: CommentThreadLocation[] = [];
+		this._fileChanges.forEach(fileChange => {
+			if (fileChange instanceof RemoteFileChangeNode) {
+				return;
+			}
+
+			// Threads on lines that are on both sides of the diff are only navigated to on the changed side
+			const rightSide = provideDocumentComments(fileChange.filePath, false, fileChange, fileChange.comments);
+			const leftSide = provideDocumentComments(fileChange.parentFilePath, true, fileChange, fileChange.comments);
+			const rightSideThreads = rightSide ? rightSide.threads : [];
+			const leftSideThreads = (leftSide ? leftSide.threads : []).filter(thread => !rightSideThreads.some(t => t.threadId === thread.threadId));
+
+			const createdThreads = this._prDocumentCommentProvider && this._prDocumentCommentProvider.commentThreadCache[fileChange.fileName] || [];
+			[rightSideThreads, leftSideThreads].forEach(threads => {
+				locations.push(...threads.map(thread => {
+					const location = toCommentThreadLocation(thread, false);
+					location.thread = createdThreads.find(t => t.threadId === thread.threadId && t.resource.toString() === thread.resource.toString());
+					return location;
+				}).sort(byLine));
+			});
+		});
+
+		return locations;
+	}
+
 	// #region New Comment Thread
 	async createEmptyCommentThread(document: vscode.TextDocument, range: vscode.Range): Promise<void> {
 		const inDraftMode = await this._prManager.inDraftMode(this.pullRequestModel);
+		this.createEmptyThread(document.uri, range, inDraftMode);
+	}
+
+	private createEmptyThread(uri: vscode.Uri, range: vscode.Range, inDraftMode: boolean): void {
 		// threadIds must be unique, otherwise they will collide when vscode saves pending comment text. Assumes
 		// that only one empty thread can be created per line.
-		const threadId = document.uri.toString() + range.start.line;
-		const thread = this._commentController!.createCommentThread(threadId, document.uri, range, []);
+		const threadId = uri.toString() + range.start.line;
+		const thread = this._commentController!.createCommentThread(threadId, uri, range, []);
+		CommentDrafts.trackThread(this.pullRequestModel, this._commentController!, thread);
 		updateCommentThreadLabel(thread);
 		thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
 		let commands = getAcceptInputCommands(thread, inDraftMode, this, this.pullRequestModel.githubRepository.supportsGraphQl);
@@ -467,6 +564,16 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 		thread.deleteCommand = getDeleteThreadCommand(thread);
 	}
 
+	/**
+	 * Recreate the new comment threads of a `pr` document whose text was kept as a draft.
+	 */
+	private restoreDrafts(uri: vscode.Uri, inDraftMode: boolean): void {
+		const drafts = CommentDrafts.getDraftsToRestore(this.pullRequestModel, uri);
+		for (let threadId of Object.keys(drafts)) {
+			this.createEmptyThread(uri, new vscode.Range(drafts[threadId].startLine, 0, drafts[threadId].endLine, 0), inDraftMode);
+		}
+	}
+
 	private async updateCommentThreadRoot(thread: vscode.CommentThread, text: string): Promise<void> {
 		try {
 			const uri = thread.resource;
@@ -483,18 +590,27 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 			}
 
 			const isBase = !!(params && params.isBase);
-			const position = mapHeadLineToDiffHunkPosition(fileChange.diffHunks, '', thread.range.start.line + 1, isBase);
+			// A comment spanning several lines is anchored to its last line
+			const position = mapHeadLineToDiffHunkPosition(fileChange.diffHunks, '', thread.range.end.line + 1, isBase);
 
 			if (position < 0) {
 				throw new Error('Comment position cannot be negative');
 			}
 
+			let lines: MultiLineCommentRange | undefined;
+			if (thread.range.start.line !== thread.range.end.line) {
+				const startPosition = mapHeadLineToDiffHunkPosition(fileChange.diffHunks, '', thread.range.start.line + 1, isBase);
+				lines = getMultiLineCommentRange(fileChange.diffHunks, startPosition, position, isBase);
+			}
+
 			// there is no thread Id, which means it's a new thread
-			const rawComment = await this._prManager.createComment(this.pullRequestModel, text, params!.fileName, position);
+			const rawComment = await this._prManager.createComment(this.pullRequestModel, text, params!.fileName, position, lines);
 			fileChange.comments.push(rawComment!);
 			const vscodeComment = convertToVSCodeComment(rawComment!, undefined);
 			updateCommentCommands(vscodeComment, this.commentController!, thread, this.pullRequestModel, this);
 			this.updateCommentThreadComments(thread, [vscodeComment]);
+			await CommentDrafts.discardDraft(thread);
+			updateCommentThreadLabel(thread);
 
 			const inDraftMode = await this._prManager.inDraftMode(this.pullRequestModel);
 			const commands = getAcceptInputCommands(thread, inDraftMode, this, this.pullRequestModel.githubRepository.supportsGraphQl);
@@ -656,6 +772,8 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 				updateCommentCommands(vscodeComment, this.commentController!, thread, this.pullRequestModel, this);
 				this.updateCommentThreadComments(thread, [...thread.comments, vscodeComment]);
 				this.commentController!.inputBox!.value = '';
+				await CommentDrafts.discardDraft(thread);
+				updateCommentThreadLabel(thread);
 			} else {
 				// create new comment thread
 				let input = this.commentController!.inputBox!.value;
@@ -748,6 +866,8 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 		if (this.commentController!.inputBox) {
 			this.commentController!.inputBox!.value = '';
 		}
+		await CommentDrafts.discardDraft(thread);
+		updateCommentThreadLabel(thread);
 	}
 
 	public async finishReview(thread: vscode.CommentThread): Promise<void> {
@@ -766,17 +886,23 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 				updateCommentCommands(vscodeComment, this.commentController!, thread, this.pullRequestModel, this);
 				this.updateCommentThreadComments(thread, [...thread.comments, vscodeComment]);
 				this.commentController!.inputBox!.value = '';
+				await CommentDrafts.discardDraft(thread);
+				updateCommentThreadLabel(thread);
 			}
 
-			await this._prManager.submitReview(this.pullRequestModel);
+			const { discardedComments } = await showReviewSubmission(this._prManager, this.pullRequestModel, this);
+			this.removeComments(discardedComments);
 		} catch (e) {
 			vscode.window.showErrorMessage(`Failed to submit the review: ${e}`);
 		}
 	}
 
 	public async deleteReview(): Promise<void> {
-		const { deletedReviewId, deletedReviewComments } = await this._prManager.deleteReview(this.pullRequestModel);
+		const { deletedReviewComments } = await this._prManager.deleteReview(this.pullRequestModel);
+		this.removeComments(deletedReviewComments);
+	}
 
+	private removeComments(deletedReviewComments: Comment[]): void {
 		// Group comments by file and then position to create threads.
 		const commentsByPath = groupBy(deletedReviewComments, comment => comment.path || '');
 
@@ -784,7 +910,7 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 			const matchingFileChange = this._fileChanges.find(fileChange => fileChange.fileName === filePath);
 
 			if (matchingFileChange && matchingFileChange instanceof InMemFileChangeNode) {
-				matchingFileChange.comments = matchingFileChange.comments.filter(comment => comment.pullRequestReviewId !== deletedReviewId);
+				matchingFileChange.comments = matchingFileChange.comments.filter(comment => !deletedReviewComments.some(deletedComment => deletedComment.id === comment.id));
 				if (this._prDocumentCommentProvider!.commentThreadCache[matchingFileChange.fileName]) {
 					let threads: vscode.CommentThread[] = [];
 
@@ -861,6 +987,10 @@ export class PRNode extends TreeNode implements CommentHandler, vscode.Commentin
 	dispose(): void {
 		super.dispose();
 
+		if (this._commentController) {
+			CommentDrafts.untrackThreads(this._commentController);
+		}
+
 		if (this._inMemPRContentProvider) {
 			this._inMemPRContentProvider.dispose();
 		}